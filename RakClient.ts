@@ -1,8 +1,84 @@
-import {ReliabilityLayer} from "./ReliabilityLayer";
+import {ReliabilityLayer, ReliabilityLayerOptions, Reliability, PacketPriority, ConnectionState, getTime, SendOptions} from "./ReliabilityLayer";
 import * as data from 'dgram';
 import * as events from "events";
 import BitStream from "./structures/BitStream";
 import RakMessages from "./RakMessages";
+import {SystemAddress} from "./structures/SystemAddress";
+import {ConnectionError, DeliveryError} from "./RakErrors";
+
+/**
+ * Settings for RakClient.connect. Times are in milliseconds
+ */
+export interface ConnectOptions {
+    // How long to wait for the server to answer each attempt
+    timeout? : number;
+    // How many more times to try after the first attempt times out
+    retries? : number;
+}
+
+/**
+ * How RakClient reconnects after losing the server. Times are in milliseconds
+ */
+export interface ReconnectOptions {
+    // How many times to try before giving up
+    maxAttempts? : number;
+    // How long to wait before the first attempt. This doubles with every attempt after it
+    initialDelay? : number;
+    // The longest we ever wait between attempts
+    maxDelay? : number;
+    // How much each wait is randomly stretched or shrunk by, so that every client doesn't come back at once
+    jitter? : number;
+    // How long to wait for the server to answer each attempt
+    timeout? : number;
+}
+
+/**
+ * Settings for the client. Anything from ReliabilityLayerOptions is used for the connection to the server
+ */
+export interface RakClientOptions extends ReliabilityLayerOptions {
+    // Reconnects on its own after the connection is lost or the server goes away. Off by default
+    reconnect? : boolean | ReconnectOptions;
+}
+
+/**
+ * Settings for RakClient.discover. Times are in milliseconds
+ */
+export interface DiscoverOptions {
+    // The port servers are listening on
+    port : number;
+    // Where to broadcast the ping. Set to null to only ping the hosts
+    broadcastAddress? : string;
+    // Servers to ping directly, either as an ip that uses the port above or as ip:port
+    hosts? : Array<string>;
+    // How long to wait for replies
+    timeout? : number;
+    // Sends ID_PING_OPEN_CONNECTIONS instead, so only servers with room for us answer
+    openConnectionsOnly? : boolean;
+    // Called with each server as soon as it answers
+    onServer? : (server : DiscoveredServer) => void;
+}
+
+/**
+ * A server that answered RakClient.discover
+ */
+export interface DiscoveredServer {
+    address : SystemAddress;
+    // The round trip time of the ping in milliseconds
+    latency : number;
+    // Whatever the server set as its offline ping response
+    data : Buffer;
+}
+
+/**
+ * A connection attempt that hasn't finished yet
+ */
+interface PendingConnection {
+    resolve : () => void;
+    reject : (error : Error) => void;
+    timer : NodeJS.Timeout;
+    // The last reason the server gave for turning us away, if it is one we try again after
+    refusal : number;
+}
 
 export default class RakClient extends events.EventEmitter {
     #ip : string;
@@ -11,20 +87,44 @@ export default class RakClient extends events.EventEmitter {
     #password : string;
     readonly #client : data.Socket;
     #startTime : number;
+    #options : RakClientOptions;
+    #pending : PendingConnection;
+    readonly #address : SystemAddress;
+    #reconnectTimer : NodeJS.Timeout;
+    #disconnecting : boolean;
 
-    constructor(ip : string, port : number, password : string) {
+    /**
+     *
+     * @param {String} ip
+     * @param {number} port
+     * @param {String} password
+     * @param {RakClientOptions} [options]
+     */
+    constructor(ip : string, port : number, password : string, options : RakClientOptions = {}) {
         super();
 
         this.#ip = ip;
 
         this.#port = port;
 
+        this.#address = new SystemAddress(ip, port);
+
         this.#password = password;
 
         this.#client = data.createSocket('udp4');
 
         this.#startTime = Date.now();
 
+        this.#options = options;
+
+        this.#connection = undefined;
+
+        this.#pending = undefined;
+
+        this.#reconnectTimer = undefined;
+
+        this.#disconnecting = false;
+
         this.#client.on('error', (err) => {
             this.onError(err);
         });
@@ -40,7 +140,203 @@ export default class RakClient extends events.EventEmitter {
             }
         });
 
-        this.#connection = new ReliabilityLayer(this.#client, {port: this.#port, address: this.#ip});
+    }
+
+    /**
+     * Connects to the server. Each attempt sends an ID_OPEN_CONNECTION_REQUEST followed by our ID_CONNECTION_REQUEST
+     * with the password once the server answers
+     * @param {ConnectOptions} [options]
+     * @returns {Promise<void>} Resolves once the server has accepted us, and rejects with a ConnectionError if it turns
+     * us away or never answers
+     */
+    connect(options : ConnectOptions = {}) : Promise<void> {
+        let timeout = options.timeout !== undefined ? options.timeout : 5000;
+        let retries = options.retries !== undefined ? options.retries : 3;
+
+        if(this.#pending !== undefined) {
+            return Promise.reject(new ConnectionError('Already connecting', RakMessages.ID_CONNECTION_ATTEMPT_FAILED));
+        }
+
+        return new Promise((resolve, reject) => {
+            let attempts = 0;
+            let attempt = () => {
+                attempts++;
+                this.resetConnection();
+                this.#client.send(Buffer.from([RakMessages.ID_OPEN_CONNECTION_REQUEST, 0]), this.#port, this.#ip);
+                this.#pending.timer = setTimeout(() => {
+                    if(attempts > retries && this.#pending.refusal !== undefined) {
+                        let refusal = this.#pending.refusal;
+                        this.failConnect(new ConnectionError(`Connection refused with ${RakMessages.key(refusal)}`, refusal));
+                    } else if(attempts > retries) {
+                        this.failConnect(new ConnectionError(`Timed out connecting to ${this.#ip}:${this.#port}`, RakMessages.ID_CONNECTION_ATTEMPT_FAILED));
+                    } else {
+                        attempt();
+                    }
+                }, timeout);
+            };
+
+            this.#pending = {
+                resolve: resolve,
+                reject: reject,
+                timer: undefined,
+                refusal: undefined
+            };
+            attempt();
+        });
+    }
+
+    /**
+     * Looks for servers by broadcasting an unconnected ID_PING on the LAN, and by pinging any hosts given directly.
+     * Every server that answers with an ID_PONG before the timeout is listed once
+     * @param {DiscoverOptions} options
+     * @returns {Promise<Array<DiscoveredServer>>}
+     */
+    static discover(options : DiscoverOptions) : Promise<Array<DiscoveredServer>> {
+        let broadcastAddress = options.broadcastAddress !== undefined ? options.broadcastAddress : '255.255.255.255';
+        let timeout = options.timeout !== undefined ? options.timeout : 1000;
+
+        return new Promise((resolve, reject) => {
+            // Parsed in here so a host we can't read rejects the promise instead of throwing
+            let targets : Array<SystemAddress> = [];
+            if(broadcastAddress !== null) {
+                targets.push(new SystemAddress(broadcastAddress, options.port));
+            }
+            for(const host of options.hosts || []) {
+                targets.push(host.includes(':') ? SystemAddress.parse(host) : new SystemAddress(host, options.port));
+            }
+
+            let socket = data.createSocket('udp4');
+            let servers : Map<string, DiscoveredServer> = new Map();
+            let timer;
+
+            socket.on('error', (err) => {
+                clearTimeout(timer);
+                socket.close();
+                reject(err);
+            });
+
+            socket.on('message', (msg, senderInfo) => {
+                if(msg.length < 5 || msg.readUInt8(0) !== RakMessages.ID_PONG) return;
+
+                let address = SystemAddress.from(senderInfo);
+                if(servers.has(address.toString())) return;
+
+                let server = {
+                    address: address,
+                    latency: (getTime() - msg.readUInt32LE(1)) >>> 0,
+                    data: Buffer.from(msg.subarray(5))
+                };
+                servers.set(address.toString(), server);
+                if(options.onServer !== undefined) {
+                    options.onServer(server);
+                }
+            });
+
+            socket.bind(0, () => {
+                socket.setBroadcast(true);
+
+                let ping = new BitStream();
+                ping.writeByte(options.openConnectionsOnly ? RakMessages.ID_PING_OPEN_CONNECTIONS : RakMessages.ID_PING);
+                ping.writeLong(getTime());
+                for(const target of targets) {
+                    // One unreachable target shouldn't stop us from hearing back from the rest
+                    socket.send(ping.data, target.port, target.address, () => {});
+                }
+
+                timer = setTimeout(() => {
+                    socket.close();
+                    resolve([...servers.values()]);
+                }, timeout);
+            });
+        });
+    }
+
+    /**
+     * Throws away the connection we have to the server, if there is one
+     */
+    resetConnection() : void {
+        if(this.#connection !== undefined) {
+            this.#connection.destroy();
+            this.#connection = undefined;
+        }
+    }
+
+    /**
+     * Sets up a fresh connection to the server once it answers our ID_OPEN_CONNECTION_REQUEST
+     * @returns {ReliabilityLayer}
+     */
+    createConnection() : ReliabilityLayer {
+        let connection = new ReliabilityLayer(this.#client, this.#address, this.#options);
+        connection.on('connectionLost', () => {
+            if(this.#connection === connection) {
+                this.#connection = undefined;
+            }
+            this.onPacket(new BitStream(Buffer.from([RakMessages.ID_CONNECTION_LOST])), this.#address);
+            if(connection.state === ConnectionState.CONNECTED) {
+                this.reconnect();
+            }
+        });
+        return connection;
+    }
+
+    /**
+     * Starts reconnecting to the server if that is turned on. Each attempt waits longer than the last, with some
+     * jitter. Emits reconnecting with the attempt number and delay before each attempt, then either reconnected once
+     * one works or reconnectFailed with the last error after the last one. Listeners on this client stay registered
+     * the whole time
+     * @param {number} [attempt]
+     */
+    reconnect(attempt : number = 1) : void {
+        if(!this.#options.reconnect || this.#disconnecting || this.#reconnectTimer !== undefined) return;
+
+        let options : ReconnectOptions = this.#options.reconnect === true ? {} : this.#options.reconnect;
+        let maxAttempts = options.maxAttempts !== undefined ? options.maxAttempts : 5;
+        let initialDelay = options.initialDelay !== undefined ? options.initialDelay : 1000;
+        let maxDelay = options.maxDelay !== undefined ? options.maxDelay : 30000;
+        let jitter = options.jitter !== undefined ? options.jitter : 0.5;
+
+        let delay = Math.min(maxDelay, initialDelay * Math.pow(2, attempt - 1));
+        delay = Math.round(delay * (1 - jitter + Math.random() * jitter * 2));
+
+        this.emit('reconnecting', attempt, delay);
+        this.#reconnectTimer = setTimeout(() => {
+            this.#reconnectTimer = undefined;
+            this.connect({timeout: options.timeout, retries: 0}).then(() => {
+                this.emit('reconnected', attempt);
+            }, (error) => {
+                if(this.#disconnecting) return;
+
+                if(attempt >= maxAttempts) {
+                    this.emit('reconnectFailed', error);
+                } else {
+                    this.reconnect(attempt + 1);
+                }
+            });
+        }, delay);
+    }
+
+    /**
+     * Rejects the connection attempt in progress and cleans up after it
+     * @param {ConnectionError} error
+     * @param {boolean} [flush] Close the connection once what it owes the server has gone out, instead of right away
+     */
+    failConnect(error : ConnectionError, flush : boolean = false) : void {
+        if(this.#pending === undefined) return;
+
+        let pending = this.#pending;
+        this.#pending = undefined;
+        clearTimeout(pending.timer);
+        if(flush && this.#connection !== undefined) {
+            let connection = this.#connection;
+            connection.close().then(() => {
+                if(this.#connection === connection) {
+                    this.#connection = undefined;
+                }
+            });
+        } else {
+            this.resetConnection();
+        }
+        pending.reject(error);
     }
 
     onError(error) {
@@ -48,15 +344,19 @@ export default class RakClient extends events.EventEmitter {
     }
 
     onMessage(data, senderInfo) {
-        if(data.length() !== 1) {
+        if(data.length() <= 2) { // Too short to be anything but an offline message
+            this.onOfflineMessage(data.readByte());
+        } else if(this.#connection !== undefined) {
             const packets = this.#connection.handle_data(data);
             let finished = false;
 
             while(!finished) {
                 let next = packets.next();
-                if(next.value !== undefined) {
+                if(next.value !== undefined && next.value.length() > 0) {
                     let packet = next.value;
-                    this.onPacket(packet, senderInfo);
+                    if(!this.onInternalPacket(packet)) {
+                        this.onPacket(packet, this.#address);
+                    }
                 }
 
                 if(next.done) {
@@ -66,19 +366,151 @@ export default class RakClient extends events.EventEmitter {
         }
     }
 
-    onPacket(packet : BitStream, senderInfo : Object) : void {
+    /**
+     * Handles the messages the server sends outside of a connection while we are trying to connect
+     * @param {number} messageId
+     */
+    onOfflineMessage(messageId : number) : void {
+        if(this.#pending === undefined) return;
+
+        if(messageId === RakMessages.ID_OPEN_CONNECTION_REPLY) {
+            if(this.#connection !== undefined) return; // We already got a reply for this attempt
+
+            this.#connection = this.createConnection();
+            this.#connection.state = ConnectionState.REQUESTED_CONNECTION;
+
+            let request = new BitStream();
+            request.writeByte(RakMessages.ID_CONNECTION_REQUEST);
+            request.concat(new BitStream(Buffer.from(this.#password === undefined ? '' : this.#password)));
+            this.#connection.send(request, Reliability.RELIABLE, 0, PacketPriority.IMMEDIATE);
+        } else if(messageId === RakMessages.ID_ALREADY_CONNECTED) {
+            // The server still has our old session. It checks if that is dead, so we just try again next attempt
+            this.#pending.refusal = messageId;
+        } else if(messageId === RakMessages.ID_CONNECTION_BANNED ||
+            messageId === RakMessages.ID_NO_FREE_INCOMING_CONNECTIONS ||
+            messageId === RakMessages.ID_CONNECTION_ATTEMPT_FAILED) {
+            this.failConnect(new ConnectionError(`Connection refused with ${RakMessages.key(messageId)}`, messageId));
+        }
+    }
+
+    /**
+     * Handles the packets that make up the connection handshake and shutdown
+     * @param {BitStream} packet
+     * @returns {boolean} True if the packet shouldn't be passed on to listeners
+     */
+    onInternalPacket(packet : BitStream) : boolean {
+        let type = packet.data.readUInt8(0);
+
+        if(type === RakMessages.ID_CONNECTION_REQUEST_ACCEPTED) {
+            if(this.#pending === undefined || this.#connection.state !== ConnectionState.REQUESTED_CONNECTION) return true;
+
+            this.#connection.state = ConnectionState.CONNECTED;
+
+            let confirm = new BitStream();
+            confirm.writeByte(RakMessages.ID_NEW_INCOMING_CONNECTION);
+            this.#address.write(confirm);
+            SystemAddress.from(this.#client.address()).write(confirm);
+            this.#connection.send(confirm, Reliability.RELIABLE_ORDERED, 0, PacketPriority.IMMEDIATE);
+
+            let pending = this.#pending;
+            this.#pending = undefined;
+            clearTimeout(pending.timer);
+            pending.resolve();
+            return true;
+        }
+
+        if(type === RakMessages.ID_INVALID_PASSWORD || type === RakMessages.ID_CONNECTION_BANNED ||
+            type === RakMessages.ID_NO_FREE_INCOMING_CONNECTIONS || type === RakMessages.ID_CONNECTION_ATTEMPT_FAILED) {
+            if(this.#pending !== undefined) {
+                // The server resends the refusal until we ack it, so let the ack go out before closing
+                this.failConnect(new ConnectionError(`Connection refused with ${RakMessages.key(type)}`, type), true);
+                return true;
+            }
+        }
+
+        if(type === RakMessages.ID_DISCONNECTION_NOTIFICATION || type === RakMessages.ID_CONNECTION_BANNED) {
+            // The server is dropping us, so close our side once our ack for this has gotten to it
+            let connection = this.#connection;
+            connection.close().then(() => {
+                if(this.#connection === connection) {
+                    this.#connection = undefined;
+                }
+                // There's no point coming back if we were banned
+                if(type === RakMessages.ID_DISCONNECTION_NOTIFICATION && connection.state === ConnectionState.CONNECTED) {
+                    this.reconnect();
+                }
+            });
+        }
+        return false;
+    }
+
+    onPacket(packet : BitStream, address : SystemAddress) : void {
         let type = packet.readByte();
         if(this.listenerCount(String(type)) > 0) {
-            this.emit(String(type), packet, senderInfo);
+            this.emit(String(type), packet, address);
         } else {
             console.log(`No listeners found for ID: ${RakMessages.key(type)} (${type})`);
         }
     }
 
+    /**
+     * Sends a packet to the server
+     * @param {BitStream|Buffer|Uint8Array} packet
+     * @param {SendOptions} [options]
+     * @returns {Promise<void>} Resolves once the packet has been delivered, or rejects with a DeliveryError
+     */
+    send(packet : BitStream | Buffer | Uint8Array, options : SendOptions = {}) : Promise<void> {
+        if(!this.connected) {
+            let rejected = Promise.reject(new DeliveryError(`Not connected to ${this.#address}`, 'closed'));
+            // Plenty of packets are sent without anyone waiting on them, and those shouldn't crash us when they fail
+            rejected.catch(() => {});
+            return rejected;
+        }
+        return this.#connection.sendPacket(packet, options);
+    }
+
+    /**
+     * Disconnects from the server. It is sent an ID_DISCONNECTION_NOTIFICATION, and once that has been acked (or the
+     * connection times out) the socket is closed
+     * @returns {Promise<void>}
+     */
+    disconnect() : Promise<void> {
+        this.#disconnecting = true;
+        clearTimeout(this.#reconnectTimer);
+        this.#reconnectTimer = undefined;
+        this.failConnect(new ConnectionError('Disconnected before the connection finished', RakMessages.ID_CONNECTION_ATTEMPT_FAILED));
+
+        let closing = Promise.resolve();
+        if(this.#connection !== undefined) {
+            this.#connection.send(new BitStream(Buffer.from([RakMessages.ID_DISCONNECTION_NOTIFICATION])), Reliability.RELIABLE_ORDERED, 0, PacketPriority.IMMEDIATE);
+            closing = this.#connection.close();
+        }
+        return closing.then(() => new Promise<void>((resolve) => {
+            this.#client.close(() => {
+                resolve();
+            });
+        }));
+    }
+
     getServer() {
         return this.#connection;
     }
 
+    /**
+     * Returns true if we have finished connecting to the server and haven't lost it since
+     * @returns {boolean}
+     */
+    get connected() : boolean {
+        return this.#connection !== undefined && !this.#connection.closed && this.#connection.state === ConnectionState.CONNECTED;
+    }
+
+    /**
+     * @returns {SystemAddress}
+     */
+    get address() : SystemAddress {
+        return this.#address;
+    }
+
     get client() {
         return this.#client;
     }
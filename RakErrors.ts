@@ -0,0 +1,47 @@
+/**
+ * Thrown when a reliable message could not be delivered to the remote system
+ */
+export class DeliveryError extends Error {
+    readonly reason : string;
+
+    /**
+     * @param {String} message
+     * @param {String} reason Either 'timeout' if we gave up resending it or 'closed' if the connection was closed first
+     */
+    constructor(message : string, reason : string) {
+        super(message);
+        this.name = 'DeliveryError';
+        this.reason = reason;
+    }
+}
+
+/**
+ * Emitted when a remote system sends us something that doesn't follow the protocol
+ */
+export class ProtocolError extends Error {
+    /**
+     * @param {String} message
+     */
+    constructor(message : string) {
+        super(message);
+        this.name = 'ProtocolError';
+    }
+}
+
+/**
+ * Thrown when we couldn't connect to a server. The message id is whatever the server turned us away with, or
+ * ID_CONNECTION_ATTEMPT_FAILED if it never answered
+ */
+export class ConnectionError extends Error {
+    readonly messageId : number;
+
+    /**
+     * @param {String} message
+     * @param {Number} messageId
+     */
+    constructor(message : string, messageId : number) {
+        super(message);
+        this.name = 'ConnectionError';
+        this.messageId = messageId;
+    }
+}
@@ -1,31 +1,83 @@
 import RakMessages from './RakMessages';
 import BitStream from './structures/BitStream.js';
-import {ReliabilityLayer} from './ReliabilityLayer.js';
+import {ReliabilityLayer, RakNetStatistics, ReliabilityLayerOptions, Reliability, PacketPriority, ConnectionState, SendOptions} from './ReliabilityLayer.js';
+import {DeliveryError} from './RakErrors.js';
+import {SystemAddress} from './structures/SystemAddress.js';
+import {Ban, BanList} from './structures/BanList.js';
 import * as data from 'dgram';
 import * as events from 'events';
+import * as assert from 'assert';
 
-export default class RakServer extends events.EventEmitter {
+// The most data we will send back in an ID_PONG, same as RakNet
+const MAX_OFFLINE_DATA_LENGTH = 400;
+
+// How much we hold on to from a client whose ID_NEW_INCOMING_CONNECTION hasn't gotten here yet
+const MAX_EARLY_PACKETS = 256;
+const MAX_EARLY_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Settings for the server. Anything from ReliabilityLayerOptions is used for every connection to this server
+ */
+export interface RakServerOptions extends ReliabilityLayerOptions {
+    // The most connections we will have at once, counting ones that haven't finished connecting yet
+    maxConnections? : number;
+    // How many of those connections only the whitelisted addresses can use
+    reservedConnections? : number;
+    // Ips that are allowed to use the reserved connections
+    whitelist? : Array<string>;
+    // How long a connected client has to answer when someone else claims to be them, in milliseconds. Defaults to four
+    // of the connection's retransmission timeouts
+    probeTimeout? : number;
+}
+
+/**
+ * Packets a client sent after we accepted it but before its ID_NEW_INCOMING_CONNECTION got here
+ */
+interface EarlyPackets {
+    packets : Array<BitStream>;
+    bytes : number;
+}
+
+interface RakServer {
+    on(event : 'newIncomingConnection', listener : (connection : ReliabilityLayer, address : SystemAddress) => void) : this;
+    on(event : string | symbol, listener : (...args : any[]) => void) : this;
+}
+
+class RakServer extends events.EventEmitter {
     #ip : string;
     #port : number;
-    readonly #connections : Array<ReliabilityLayer>;
+    readonly #connections : Map<string, ReliabilityLayer>;
+    readonly #releasing : Map<string, ReliabilityLayer>;
     #password : string;
     readonly #server : data.Socket;
     #startTime : number;
+    #options : RakServerOptions;
+    readonly #whitelist : Set<string>;
+    readonly #bans : BanList;
+    readonly #probing : Set<ReliabilityLayer>;
+    readonly #early : WeakMap<ReliabilityLayer, EarlyPackets>;
+    #offlinePingResponse : Buffer;
+    #closed : boolean;
+    #shuttingDown : boolean;
+    #systemIndex : number;
 
     /**
      *
      * @param {String} ip
      * @param {number} port
      * @param {String} password
+     * @param {RakServerOptions} [options]
      */
-    constructor(ip : string, port : number, password : string) {
+    constructor(ip : string, port : number, password : string, options : RakServerOptions = {}) {
         super();
 
         this.#ip = ip;
 
         this.#port = port;
 
-        this.#connections = [];
+        this.#connections = new Map();
+
+        this.#releasing = new Map();
 
         this.#password = password;
 
@@ -33,6 +85,24 @@ export default class RakServer extends events.EventEmitter {
 
         this.#startTime = Date.now();
 
+        this.#options = options;
+
+        this.#whitelist = new Set(options.whitelist);
+
+        this.#bans = new BanList();
+
+        this.#probing = new Set();
+
+        this.#early = new WeakMap();
+
+        this.#offlinePingResponse = Buffer.alloc(0);
+
+        this.#closed = false;
+
+        this.#shuttingDown = false;
+
+        this.#systemIndex = 0;
+
         this.#server.on('error', (err) => {
             this.onError(err);
         });
@@ -52,6 +122,10 @@ export default class RakServer extends events.EventEmitter {
             this.onListening();
         });
 
+        this.#server.on('close', () => {
+            this.#closed = true;
+        });
+
         this.#server.bind(port, ip);
     }
 
@@ -61,60 +135,451 @@ export default class RakServer extends events.EventEmitter {
      * @param senderInfo
      */
     onMessage(data : BitStream, senderInfo) : void {
+        const address = SystemAddress.from(senderInfo);
+
         if(data.length() === 2) { //meaning there isnt an open connection yet...
 
             let messageId = data.readByte();
 
             if(messageId === RakMessages.ID_OPEN_CONNECTION_REQUEST) {
-                this.#connections[senderInfo.address] = new ReliabilityLayer(this.server, senderInfo);
+                if(this.#bans.has(address.address)) {
+                    this.server.send(Buffer.from([RakMessages.ID_CONNECTION_BANNED]), address.port, address.address);
+                    return;
+                }
+
+                let existing = this.#connections.get(address.toString());
+                if(existing !== undefined) {
+                    if(existing.state === ConnectionState.CONNECTED) {
+                        // Either they restarted, or this is a stray retry. Turn them away for now, and if the old
+                        // session is dead it gets cleaned up so that their next attempt works
+                        this.server.send(Buffer.from([RakMessages.ID_ALREADY_CONNECTED]), address.port, address.address);
+                        this.probe(existing);
+                        return;
+                    }
+
+                    // They never finished connecting, so they must have started over
+                    this.#connections.delete(address.toString());
+                    existing.destroy();
+                }
+
+                if(!this.hasFreeConnection(address)) {
+                    this.server.send(Buffer.from([RakMessages.ID_NO_FREE_INCOMING_CONNECTIONS]), address.port, address.address);
+                    return;
+                }
+
+                let connection = new ReliabilityLayer(this.server, address, this.#options);
+                connection.on('connectionLost', () => {
+                    this.onConnectionLost(connection, address);
+                });
+                this.#connections.set(address.toString(), connection);
                 let ret = Buffer.alloc(1);
                 ret.writeInt8(RakMessages.ID_OPEN_CONNECTION_REPLY, 0);
-                this.server.send(ret, senderInfo.port, senderInfo.address);
+                this.server.send(ret, address.port, address.address);
             }
 
+        } else if(data.length() === 5 && RakServer.isUnconnectedPing(data.data.readUInt8(0))) {
+            this.onUnconnectedPing(data, address);
         } else {
-            if(this.#connections[senderInfo.address] !== undefined) { //we have an existing connection
-                const packets = this.#connections[senderInfo.address].handle_data(data);
+            if(this.#connections.has(address.toString())) { //we have an existing connection
+                const connection = this.#connections.get(address.toString());
+                const packets = connection.handle_data(data);
                 let finished = false;
 
                 while(!finished) {
                     let next = packets.next();
-                    if(next.value !== undefined) {
+                    if(next.value !== undefined && next.value.length() > 0) {
                         let packet = next.value;
-                        this.onPacket(packet, senderInfo);
+                        if(!this.onInternalPacket(connection, packet, address)) {
+                            this.onPacket(packet, address);
+                        }
                     }
 
                     if(next.done) {
                         finished = true;
                     }
                 }
+            } else if(this.#releasing.has(address.toString())) {
+                // Only the acks matter now, anything else they send is thrown away
+                const packets = this.#releasing.get(address.toString()).handle_data(data);
+                while(!packets.next().done) {}
             } else {
-                console.warn(`Got message from unconnected user!`);
+                console.warn(`Got message from unconnected user ${address}!`);
+            }
+        }
+    }
+
+    /**
+     * Answers a ping from someone who isn't connected, like a server browser. The ID_PONG echoes their time and has
+     * the offline ping response after it. The ID_PING_OPEN_CONNECTIONS variant is only answered if they could connect
+     * @param {BitStream} data
+     * @param {SystemAddress} address
+     */
+    onUnconnectedPing(data : BitStream, address : SystemAddress) : void {
+        let messageId = data.readByte();
+        if(messageId === RakMessages.ID_PING_OPEN_CONNECTIONS && !this.hasFreeConnection(address)) return;
+
+        let pong = new BitStream();
+        pong.writeByte(RakMessages.ID_PONG);
+        pong.writeLong(data.readLong());
+        pong.concat(new BitStream(this.#offlinePingResponse));
+        this.server.send(pong.data, address.port, address.address);
+    }
+
+    /**
+     * Returns true if this message id asks us for an ID_PONG
+     * @param {number} messageId
+     * @returns {boolean}
+     */
+    static isUnconnectedPing(messageId : number) : boolean {
+        return messageId === RakMessages.ID_PING || messageId === RakMessages.ID_PING_OPEN_CONNECTIONS;
+    }
+
+    /**
+     * Sets the data sent back to anyone who pings us without connecting, like the player count or map name
+     * @param {BitStream|Buffer|string} response
+     */
+    setOfflinePingResponse(response : BitStream | Buffer | string) : void {
+        let buffer = response instanceof BitStream ? response.data : Buffer.from(response);
+        assert(buffer.length <= MAX_OFFLINE_DATA_LENGTH, `Offline ping response can't be more than ${MAX_OFFLINE_DATA_LENGTH} bytes!`);
+        this.#offlinePingResponse = Buffer.from(buffer);
+    }
+
+    /**
+     * @returns {Buffer}
+     */
+    getOfflinePingResponse() : Buffer {
+        return Buffer.from(this.#offlinePingResponse);
+    }
+
+    /**
+     * Makes sure a connection is still alive by sending it something reliable. If it isn't acked within the probe
+     * timeout, and has been resent at least once in that time, the connection is lost. Anyone can spoof the request
+     * that starts a probe, so one lost datagram mustn't be enough to drop a player
+     * @param {ReliabilityLayer} connection
+     */
+    probe(connection : ReliabilityLayer) : void {
+        if(this.#probing.has(connection)) return;
+
+        this.#probing.add(connection);
+        let statistics = connection.getStatistics();
+        let timeout = this.#options.probeTimeout !== undefined ? this.#options.probeTimeout : 4 * statistics.rto;
+        let resent = statistics.messagesResent;
+        let check = () => {
+            statistics = connection.getStatistics();
+            if(statistics.messagesResent === resent) {
+                // Nothing has been resent yet, so give it another retransmission timeout
+                timer = setTimeout(check, statistics.rto);
+                return;
+            }
+            connection.lose();
+        };
+        let timer = setTimeout(check, timeout);
+        let done = () => {
+            clearTimeout(timer);
+            this.#probing.delete(connection);
+        };
+        connection.send(new BitStream(Buffer.from([RakMessages.ID_DETECT_LOST_CONNECTIONS])), Reliability.RELIABLE, 0, PacketPriority.IMMEDIATE).then(done, done);
+    }
+
+    /**
+     * Checks if there is room for another connection from this address. Once only the reserved connections are left,
+     * just whitelisted ips can get in. Nobody can once the server is shutting down
+     * @param {SystemAddress} address
+     * @returns {boolean}
+     */
+    hasFreeConnection(address : SystemAddress) : boolean {
+        if(this.#shuttingDown) return false;
+
+        let max = this.maxConnections;
+        if(!this.#whitelist.has(address.address)) {
+            max -= this.#options.reservedConnections || 0;
+        }
+        return this.#connections.size < max;
+    }
+
+    /**
+     * Sends a packet to a connected client
+     * @param {SystemAddress|string} address A SystemAddress or an ip and port like 127.0.0.1:1001
+     * @param {BitStream|Buffer|Uint8Array} packet
+     * @param {SendOptions} [options]
+     * @returns {Promise<void>} Resolves once the packet has been delivered, or rejects with a DeliveryError
+     */
+    send(address : SystemAddress | string, packet : BitStream | Buffer | Uint8Array, options : SendOptions = {}) : Promise<void> {
+        let connection = this.getClient(address);
+        if(connection === undefined || connection.state !== ConnectionState.CONNECTED) {
+            let rejected = Promise.reject(new DeliveryError(`Not connected to ${address}`, 'closed'));
+            // Plenty of packets are sent without anyone waiting on them, and those shouldn't crash us when they fail
+            rejected.catch(() => {});
+            return rejected;
+        }
+        return connection.sendPacket(packet, options);
+    }
+
+    /**
+     * Sends a packet to every connected client
+     * @param {BitStream|Buffer|Uint8Array} packet
+     * @param {SendOptions} [options]
+     * @param {{exclude? : SystemAddress|string|Array<SystemAddress|string>}} [filter] Clients not to send it to
+     * @returns {Promise<void>} Resolves once every client has gotten it, or rejects with the first DeliveryError
+     */
+    broadcast(packet : BitStream | Buffer | Uint8Array, options : SendOptions = {}, filter : {exclude? : SystemAddress | string | Array<SystemAddress | string>} = {}) : Promise<void> {
+        let exclude = filter.exclude === undefined ? [] : [].concat(filter.exclude);
+        let excluded = new Set(exclude.map((address) => RakServer.key(address)));
+
+        let sending = [];
+        for(const [key, connection] of this.#connections) {
+            if(excluded.has(key) || connection.state !== ConnectionState.CONNECTED) continue;
+            sending.push(connection.sendPacket(packet, options));
+        }
+        let promise = Promise.all(sending).then(() => {});
+        // Same as send, a client dropping partway through shouldn't crash anyone who didn't wait on this
+        promise.catch(() => {});
+        return promise;
+    }
+
+    /**
+     * Bans an ip or CIDR range, like 10.0.0.0/24. Anyone already connected from there is sent an ID_CONNECTION_BANNED
+     * and dropped, and listeners get an ID_CONNECTION_LOST for them
+     * @param {SystemAddress|string} address
+     * @param {number} [duration] How long the ban lasts in milliseconds. It lasts forever if this isn't given
+     * @param {string} [reason]
+     * @returns {Ban}
+     */
+    ban(address : SystemAddress | string, duration? : number, reason? : string) : Ban {
+        let ban = this.#bans.add(address instanceof SystemAddress ? address.address : address, duration, reason);
+
+        for(const connection of [...this.#connections.values()]) {
+            if(!BanList.matches(ban.range, connection.address.address)) continue;
+
+            let connected = connection.state === ConnectionState.CONNECTED;
+            connection.send(new BitStream(Buffer.from([RakMessages.ID_CONNECTION_BANNED])), Reliability.RELIABLE_ORDERED, 0, PacketPriority.IMMEDIATE);
+            this.release(connection, connection.address);
+            if(connected) {
+                this.onPacket(new BitStream(Buffer.from([RakMessages.ID_CONNECTION_LOST])), connection.address);
             }
         }
+        return ban;
+    }
+
+    /**
+     * Lifts a ban. Ranges have to be given the same way they were banned
+     * @param {SystemAddress|string} address
+     * @returns {boolean} False if it wasn't banned
+     */
+    unban(address : SystemAddress | string) : boolean {
+        return this.#bans.remove(address instanceof SystemAddress ? address.address : address);
+    }
+
+    /**
+     * @param {SystemAddress|string} address
+     * @returns {boolean}
+     */
+    isBanned(address : SystemAddress | string) : boolean {
+        return this.#bans.has(address instanceof SystemAddress ? address.address : address);
+    }
+
+    /**
+     * Gets every ban that hasn't expired yet
+     * @returns {Array<Ban>}
+     */
+    listBans() : Array<Ban> {
+        return this.#bans.list();
+    }
+
+    /**
+     * Saves the ban list so that it can be loaded with importBans after a restart
+     * @returns {string}
+     */
+    exportBans() : string {
+        return JSON.stringify(this.#bans);
+    }
+
+    /**
+     * Adds the bans saved by exportBans
+     * @param {string} json
+     */
+    importBans(json : string) : void {
+        this.#bans.load(json);
+    }
+
+    /**
+     * Handles the packets that make up the connection handshake and shutdown. Anything from a client that hasn't
+     * finished connecting yet stops here too, and is passed on once it has if we already accepted it
+     * @param {ReliabilityLayer} connection
+     * @param {BitStream} packet
+     * @param {SystemAddress} address
+     * @returns {boolean} True if the packet shouldn't be passed on to listeners
+     */
+    onInternalPacket(connection : ReliabilityLayer, packet : BitStream, address : SystemAddress) : boolean {
+        let type = packet.data.readUInt8(0);
+
+        if(type === RakMessages.ID_CONNECTION_REQUEST) {
+            this.onConnectionRequest(connection, packet, address);
+            return true;
+        }
+
+        if(type === RakMessages.ID_NEW_INCOMING_CONNECTION) {
+            if(connection.state === ConnectionState.HANDLING_CONNECTION_REQUEST) {
+                connection.state = ConnectionState.CONNECTED;
+                this.emit('newIncomingConnection', connection, address);
+
+                let early = this.#early.get(connection);
+                this.#early.delete(connection);
+                if(early !== undefined) {
+                    for(const held of early.packets) {
+                        this.onPacket(held, address);
+                    }
+                }
+            }
+            return true;
+        }
+
+        if(type === RakMessages.ID_DISCONNECTION_NOTIFICATION) {
+            // They are leaving, so let go of the connection once our ack for this has gotten to them
+            this.release(connection, address);
+            return connection.state !== ConnectionState.CONNECTED;
+        }
+
+        if(connection.state === ConnectionState.HANDLING_CONNECTION_REQUEST) {
+            // The layer has already acked this, so it can't be dropped. Their ID_NEW_INCOMING_CONNECTION was lost or
+            // is on its way, and anything they sent on another channel or unordered got here first
+            let early = this.#early.get(connection);
+            if(early === undefined) {
+                early = {packets: [], bytes: 0};
+                this.#early.set(connection, early);
+            }
+            if(early.packets.length < MAX_EARLY_PACKETS && early.bytes + packet.length() <= MAX_EARLY_BYTES) {
+                early.packets.push(packet);
+                early.bytes += packet.length();
+                return true;
+            }
+        }
+
+        if(connection.state !== ConnectionState.CONNECTED) {
+            console.warn(`Got ${RakMessages.key(type)} (${type}) from ${address} before they finished connecting!`);
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Checks the password a client connected with and either accepts the connection or turns them away
+     * @param {ReliabilityLayer} connection
+     * @param {BitStream} packet
+     * @param {SystemAddress} address
+     */
+    onConnectionRequest(connection : ReliabilityLayer, packet : BitStream, address : SystemAddress) : void {
+        let password = packet.data.subarray(1);
+        let expected = Buffer.from(this.#password === undefined ? '' : this.#password);
+
+        if(!password.equals(expected)) {
+            connection.send(new BitStream(Buffer.from([RakMessages.ID_INVALID_PASSWORD])), Reliability.RELIABLE, 0, PacketPriority.IMMEDIATE);
+            this.release(connection, address);
+            return;
+        }
+
+        if(connection.state === ConnectionState.UNVERIFIED_SENDER) {
+            connection.state = ConnectionState.HANDLING_CONNECTION_REQUEST;
+            this.#systemIndex = (this.#systemIndex + 1) & 0xFFFF;
+            // A resent request has to get the same index back, no matter who has connected since
+            connection.systemIndex = this.#systemIndex;
+        }
+
+        let accepted = new BitStream();
+        accepted.writeByte(RakMessages.ID_CONNECTION_REQUEST_ACCEPTED);
+        address.write(accepted);
+        accepted.writeShort(connection.systemIndex);
+        SystemAddress.from(this.#server.address()).write(accepted);
+        connection.send(accepted, Reliability.RELIABLE, 0, PacketPriority.IMMEDIATE);
+    }
+
+    /**
+     * Forgets about a connection, but lets it finish sending what it has queued before it is destroyed. The server
+     * waits for these too when it closes
+     * @param {ReliabilityLayer} connection
+     * @param {SystemAddress} address
+     */
+    release(connection : ReliabilityLayer, address : SystemAddress) : void {
+        if(this.#connections.get(address.toString()) === connection) {
+            this.#connections.delete(address.toString());
+        }
+        let key = address.toString();
+        if(this.#releasing.has(key) && this.#releasing.get(key) !== connection) {
+            this.#releasing.get(key).destroy();
+        }
+        this.#releasing.set(key, connection);
+        connection.close().then(() => {
+            if(this.#releasing.get(key) === connection) {
+                this.#releasing.delete(key);
+            }
+        });
     }
 
     /**
      * This is called by onMessage after it breaks down the packets into what gets done when
      * @param {BitStream} packet
-     * @param {Object} senderInfo
+     * @param {SystemAddress} address
      */
-    onPacket(packet : BitStream, senderInfo : Object) : void {
+    onPacket(packet : BitStream, address : SystemAddress) : void {
         let type = packet.readByte();
         if(this.listenerCount(String(type)) > 0) {
-            this.emit(String(type), packet, senderInfo);
+            this.emit(String(type), packet, address);
         } else {
             console.log(`No listeners found for ID: ${RakMessages.key(type)} (${type})`);
         }
     }
 
+    /**
+     * Called when a client stops responding. Forgets about the connection and passes an ID_CONNECTION_LOST on to
+     * any listeners, unless we had already let go of it
+     * @param {ReliabilityLayer} connection
+     * @param {SystemAddress} address
+     */
+    onConnectionLost(connection : ReliabilityLayer, address : SystemAddress) : void {
+        if(this.#connections.get(address.toString()) !== connection) return;
+
+        this.#connections.delete(address.toString());
+        this.onPacket(new BitStream(Buffer.from([RakMessages.ID_CONNECTION_LOST])), address);
+    }
+
     /**
      * If the server throws an error, this gets called
      * @param {Error} error
      */
     onError(error : Error) : void {
         console.log(`server error:\n${error.stack}`);
-        this.#server.close();
+        for(const connection of [...this.#connections.values(), ...this.#releasing.values()]) {
+            connection.destroy();
+        }
+        this.#connections.clear();
+        this.#releasing.clear();
+        if(!this.#closed) {
+            this.#server.close();
+        }
+    }
+
+    /**
+     * Shuts the server down. Every client is sent an ID_DISCONNECTION_NOTIFICATION, and once they have all acked it
+     * (or timed out) the socket is closed
+     * @returns {Promise<void>}
+     */
+    close() : Promise<void> {
+        this.#shuttingDown = true;
+        for(const connection of [...this.#connections.values()]) {
+            connection.send(new BitStream(Buffer.from([RakMessages.ID_DISCONNECTION_NOTIFICATION])), Reliability.RELIABLE_ORDERED, 0, PacketPriority.IMMEDIATE);
+            this.release(connection, connection.address);
+        }
+
+        let closing = [...this.#releasing.values()].map((connection) => connection.close());
+        return Promise.all(closing).then(() => new Promise<void>((resolve) => {
+            if(this.#closed) {
+                resolve();
+                return;
+            }
+            this.#server.close(() => {
+                resolve();
+            });
+        }));
     }
 
     /**
@@ -126,12 +591,102 @@ export default class RakServer extends events.EventEmitter {
     }
 
     /**
-     *
-     * @param {string} ip
+     * Looks up the connection to a client
+     * @param {SystemAddress|string} address Either a SystemAddress, an ip and port like 127.0.0.1:1001, or just an ip
+     * if the port is given separately
+     * @param {number} [port]
      * @returns {ReliabilityLayer}
      */
-    getClient(ip : string) : ReliabilityLayer {
-        return this.#connections[ip];
+    getClient(address : SystemAddress | string, port? : number) : ReliabilityLayer {
+        return this.#connections.get(RakServer.key(address, port));
+    }
+
+    /**
+     * Returns true if we have a connection to this client
+     * @param {SystemAddress|string} address
+     * @param {number} [port]
+     * @returns {boolean}
+     */
+    hasClient(address : SystemAddress | string, port? : number) : boolean {
+        return this.#connections.has(RakServer.key(address, port));
+    }
+
+    /**
+     * Goes through the connection to every client, including ones that haven't finished connecting yet
+     * @returns {IterableIterator<ReliabilityLayer>}
+     */
+    clients() : IterableIterator<ReliabilityLayer> {
+        return this.#connections.values();
+    }
+
+    /**
+     * Turns whatever getClient was given into the key the connection is stored under
+     * @param {SystemAddress|string} address
+     * @param {number} [port]
+     * @returns {string}
+     */
+    static key(address : SystemAddress | string, port? : number) : string {
+        if(address instanceof SystemAddress) {
+            return address.toString();
+        }
+        if(port !== undefined) {
+            return new SystemAddress(address, port, address.includes(':') ? 'IPv6' : 'IPv4').toString();
+        }
+        return SystemAddress.parse(address).toString();
+    }
+
+    /**
+     * Adds up the statistics of every connection. The round trip times are averaged instead
+     * @returns {RakNetStatistics}
+     */
+    getStatistics() : RakNetStatistics & {connections : number} {
+        let total = {
+            connections: 0,
+            bytesSent: 0,
+            bytesReceived: 0,
+            messagesSent: 0,
+            messagesReceived: 0,
+            messagesResent: 0,
+            acksSent: 0,
+            acksReceived: 0,
+            duplicatesDropped: 0,
+            splitPacketsInFlight: 0,
+            sendQueueDepth: [0, 0, 0, 0],
+            resendQueueDepth: 0,
+            heldBackPackets: 0,
+            congestionWindow: 0,
+            rtt: undefined,
+            rto: undefined,
+            bytesSentPerSecond: 0,
+            bytesReceivedPerSecond: 0
+        };
+
+        let rtt = 0;
+        let rttCount = 0;
+        let rto = 0;
+        for(const connection of this.#connections.values()) {
+            let statistics = connection.getStatistics();
+            total.connections++;
+            for(const key of Object.keys(statistics)) {
+                if(key === 'rtt' || key === 'rto') continue;
+                if(key === 'sendQueueDepth') {
+                    for(let i = 0; i < statistics.sendQueueDepth.length; i++) {
+                        total.sendQueueDepth[i] += statistics.sendQueueDepth[i];
+                    }
+                } else {
+                    total[key] += statistics[key];
+                }
+            }
+            if(statistics.rtt !== undefined) {
+                rtt += statistics.rtt;
+                rttCount++;
+            }
+            rto += statistics.rto;
+        }
+
+        if(rttCount > 0) total.rtt = rtt / rttCount;
+        if(total.connections > 0) total.rto = rto / total.connections;
+        return total;
     }
 
     /**
@@ -157,7 +712,24 @@ export default class RakServer extends events.EventEmitter {
         return this.#startTime;
     }
 
-    get connections() : Array<ReliabilityLayer> {
+    get connections() : ReadonlyMap<string, ReliabilityLayer> {
         return this.#connections;
     }
-}
\ No newline at end of file
+
+    /**
+     * @returns {number}
+     */
+    get maxConnections() : number {
+        return this.#options.maxConnections !== undefined ? this.#options.maxConnections : Infinity;
+    }
+
+    /**
+     * The number of clients we have a connection to, including ones that haven't finished connecting yet
+     * @returns {number}
+     */
+    get connectionCount() : number {
+        return this.#connections.size;
+    }
+}
+
+export default RakServer;
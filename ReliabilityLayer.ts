@@ -1,8 +1,12 @@
-// TODO: At some point in my poor future, I will have to implement ack packets
-
 import {RangeList}  from './structures/RangeList.js';
+import {ReceivedMessageWindow} from './structures/ReceivedMessageWindow.js';
+import {SlidingWindowCounter} from './structures/SlidingWindowCounter.js';
+import {SystemAddress} from './structures/SystemAddress.js';
 import BitStream from './structures/BitStream.js';
 import * as assert from 'assert';
+import * as events from 'events';
+import {DeliveryError, ProtocolError} from './RakErrors.js';
+import RakMessages from './RakMessages.js';
 
 export const Reliability = {
     'UNRELIABLE': 0,
@@ -12,66 +16,261 @@ export const Reliability = {
     'RELIABLE_SEQUENCED': 4,
 };
 
+export const PacketPriority = {
+    'IMMEDIATE': 0,
+    'HIGH': 1,
+    'MEDIUM': 2,
+    'LOW': 3,
+};
+
+export const ConnectionState = {
+    // The remote system has opened a connection but hasn't sent its connection request yet
+    'UNVERIFIED_SENDER': 0,
+    // We have sent a connection request and are waiting to hear back
+    'REQUESTED_CONNECTION': 1,
+    // We have accepted the connection request and are waiting for them to confirm
+    'HANDLING_CONNECTION_REQUEST': 2,
+    'CONNECTED': 3,
+};
+
+// How many turns each priority gets per round of the send queues. Immediate packets don't wait for a turn
+const PRIORITY_WEIGHTS = [0, 4, 2, 1];
+
 const MTU_SIZE = 1228;
+const NUMBER_OF_ORDERED_STREAMS = 32;
+const MAX_OUT_OF_ORDER_PACKETS = 1024;
+// Held back packets can be whole split packets, so how much they take up is limited too, across every channel
+const MAX_OUT_OF_ORDER_BYTES = 4 * 1024 * 1024;
+
+// Limits on how much of a connection's memory split packets can take up while we put them back together
+const MAX_SPLIT_PACKET_COUNT = 4096;
+const MAX_SPLIT_PACKET_GROUPS = 64;
+const MAX_SPLIT_PACKET_BYTES = 4 * 1024 * 1024;
+const SPLIT_PACKET_TIMEOUT = 30000;
+
 const UDP_HEADER_SIZE = 28;
+// The has acks and has time flags and the time itself
+const DATAGRAM_HEADER_LENGTH = 5;
+// Each range takes up 65 bits at most, so this keeps the acks to a bit over half of a datagram
+const MAX_ACK_RANGES = 80;
+
+// Congestion window limits, counted in messages
+const MIN_CONGESTION_WINDOW = 2;
+const MAX_CONGESTION_WINDOW = 1024;
+const INITIAL_SLOW_START_THRESHOLD = 64;
+
+// How many of the latest pings the average ping is taken over
+const PING_TIMES_SIZE = 5;
+
+/**
+ * Gets the current time in milliseconds, wrapped to 32 bits like a RakNetTime
+ * @returns {number}
+ */
+export function getTime() : number {
+    return Date.now() >>> 0;
+}
+
+/**
+ * A split packet that we are still receiving the pieces of
+ */
+interface SplitPacketGroup {
+    count : number;
+    received : number;
+    bytes : number;
+    fragments : Map<number, BitStream>;
+    lastUpdate : number;
+}
+
+/**
+ * A ping that came back, and how far ahead the remote clock looked to be according to it
+ */
+interface PingTime {
+    ping : number;
+    clockDifferential : number;
+}
+
+/**
+ * Keeps track of whether every message a packet was sent in has been delivered
+ */
+interface Receipt {
+    remaining : number;
+    resolve : () => void;
+    reject : (error : Error) => void;
+}
+
+/**
+ * A message waiting in a send queue, or waiting on an ack once it is reliable and has been sent. The send times are
+ * only set once it has been
+ */
+interface QueuedMessage {
+    packet : BitStream;
+    reliability : number;
+    orderingIndex : number;
+    orderingChannel : number;
+    splitPacketInfo : {id : number, index : number, count : number};
+    receipt : Receipt;
+    firstSend? : number;
+    nextSend? : number;
+}
+
+/**
+ * Settings for a single connection. Times are in milliseconds
+ */
+export interface ReliabilityLayerOptions {
+    // How long we go without hearing anything, or without a reliable message being acked, before the connection is lost
+    timeout? : number;
+    // How long the connection can sit idle before we check that the remote system is still there
+    keepAliveInterval? : number;
+    // How often we ping the remote system once connected, to keep track of latency
+    pingInterval? : number;
+}
+
+/**
+ * How a packet is sent by sendPacket and the server and client send methods built on it
+ */
+export interface SendOptions {
+    // One of Reliability. Defaults to RELIABLE_ORDERED
+    reliability? : number;
+    // The channel ordered and sequenced packets are sent on, from 0 to 31
+    channel? : number;
+    // One of PacketPriority. Defaults to MEDIUM
+    priority? : number;
+}
+
+/**
+ * A snapshot of how a connection is doing, modelled after RakNetStatistics
+ */
+export interface RakNetStatistics {
+    bytesSent : number;
+    bytesReceived : number;
+    messagesSent : number;
+    messagesReceived : number;
+    messagesResent : number;
+    acksSent : number;
+    acksReceived : number;
+    duplicatesDropped : number;
+    splitPacketsInFlight : number;
+    sendQueueDepth : Array<number>;
+    resendQueueDepth : number;
+    heldBackPackets : number;
+    congestionWindow : number;
+    rtt : number;
+    rto : number;
+    bytesSentPerSecond : number;
+    bytesReceivedPerSecond : number;
+}
 
 /**
  * The ReliabilityLayer class used for sending and receiving data to a single client.
  */
-export class ReliabilityLayer {
+export class ReliabilityLayer extends events.EventEmitter {
     #server;
-    #connection;
+    #connection : SystemAddress;
 
     #srrt;
     #rttVar;
     #rto;
-    #last;
     #remoteSystemTime;
-    #resends;
+    #resends : Map<number, QueuedMessage>;
     #acks;
-    #queue : Array<Array<BitStream>>;
-    #sequencedReadIndex;
-    #sequencedWriteIndex;
-    #orderedReadIndex;
-    #orderedWriteIndex;
-    #outOfOrderPackets;
-    #sends;
-    #congestionWindow;
-    #packetsSent;
+    #received : ReceivedMessageWindow;
+    #queue : Map<number, SplitPacketGroup>;
+    #splitPacketBytes : number;
+    #sequencedReadIndex : Array<number>;
+    #sequencedWriteIndex : Array<number>;
+    #orderedReadIndex : Array<number>;
+    #orderedWriteIndex : Array<number>;
+    #outOfOrderPackets : Array<Map<number, BitStream>>;
+    #outOfOrderBytes : number;
+    #sends : Array<Array<QueuedMessage>>;
+    #priorityTurns : Array<number>;
+    #congestionWindow : number;
+    #slowStartThreshold : number;
+    #lastCongestionEvent : number;
     #sendMessageNumberIndex;
     #interval;
     #splitPacketId;
+    #statistics;
+    #sentThroughput : SlidingWindowCounter;
+    #receivedThroughput : SlidingWindowCounter;
+    #timeout : number;
+    #keepAliveInterval : number;
+    #pingInterval : number;
+    #lastPingSent : number;
+    #pings : Array<PingTime>;
+    #lowestPing : number;
+    #lastReceived : number;
+    #closed : boolean;
+    #state : number;
+    #systemIndex : number;
+    #closing : Promise<void>;
+    #onClosed : () => void;
 
     /**
      * Constructs a new instance of ReliabilityLayer and set default values for the object
      * @param server
-     * @param address
+     * @param {SystemAddress} address
+     * @param {ReliabilityLayerOptions} [options]
      */
-    constructor(server, address) {
+    constructor(server, address : SystemAddress, options : ReliabilityLayerOptions = {}) {
+        super();
+
         this.#server = server;
         this.#connection = address;
 
         this.#srrt = undefined;
         this.#rttVar = undefined;
         this.#rto = 1;
-        this.#last = Date.now();
         this.#remoteSystemTime = 0;
-        this.#resends = []; //i assume to keep track of what messages needed to be resent?
+        this.#resends = new Map();
         this.#acks = new RangeList();
-        this.#queue = [];
-        this.#sequencedReadIndex = 0;
-        this.#sequencedWriteIndex = 0;
-        this.#orderedReadIndex = 0;
-        this.#orderedWriteIndex = 0;
+        this.#received = new ReceivedMessageWindow();
+        this.#queue = new Map();
+        this.#splitPacketBytes = 0;
+        // Every ordering channel keeps its own indices so one channel never has to wait on another
+        this.#sequencedReadIndex = new Array(NUMBER_OF_ORDERED_STREAMS).fill(0);
+        this.#sequencedWriteIndex = new Array(NUMBER_OF_ORDERED_STREAMS).fill(0);
+        this.#orderedReadIndex = new Array(NUMBER_OF_ORDERED_STREAMS).fill(0);
+        this.#orderedWriteIndex = new Array(NUMBER_OF_ORDERED_STREAMS).fill(0);
         this.#outOfOrderPackets = [];
-        this.#sends = [];
-        this.#congestionWindow = 0;
-        this.#packetsSent = 0;
+        for (let i = 0; i < NUMBER_OF_ORDERED_STREAMS; i++) {
+            this.#outOfOrderPackets.push(new Map());
+        }
+        this.#outOfOrderBytes = 0;
+        this.#sends = [[], [], [], []];
+        this.#priorityTurns = PRIORITY_WEIGHTS.slice();
+        this.#congestionWindow = MIN_CONGESTION_WINDOW;
+        this.#slowStartThreshold = INITIAL_SLOW_START_THRESHOLD;
+        this.#lastCongestionEvent = 0;
         this.#sendMessageNumberIndex = 0;
         this.#splitPacketId = 0;
+        this.#statistics = {
+            bytesSent: 0,
+            bytesReceived: 0,
+            messagesSent: 0,
+            messagesReceived: 0,
+            messagesResent: 0,
+            acksSent: 0,
+            acksReceived: 0,
+            duplicatesDropped: 0
+        };
+        this.#sentThroughput = new SlidingWindowCounter();
+        this.#receivedThroughput = new SlidingWindowCounter();
+        this.#timeout = options.timeout !== undefined ? options.timeout : 10000;
+        this.#keepAliveInterval = options.keepAliveInterval !== undefined ? options.keepAliveInterval : 5000;
+        this.#pingInterval = options.pingInterval !== undefined ? options.pingInterval : 5000;
+        this.#lastPingSent = 0;
+        this.#pings = [];
+        this.#lowestPing = undefined;
+        this.#lastReceived = Date.now();
+        this.#closed = false;
+        this.#state = ConnectionState.UNVERIFIED_SENDER;
+        this.#systemIndex = undefined;
+        this.#closing = undefined;
+        this.#onClosed = undefined;
         let layer = this;
         this.#interval = setInterval(function () {
-            layer.sendLoop();
+            layer.update();
         }, 30);
     }
 
@@ -80,8 +279,123 @@ export class ReliabilityLayer {
      * @param {BitStream} data The packet
      */
     * handle_data(data) : Generator<BitStream> {
-        if (this.handle_data_header(data)) yield undefined;
-        yield* this.parse_packets(data);
+        if (this.#closed) return;
+
+        this.#lastReceived = Date.now();
+        this.#statistics.bytesReceived += data.length();
+        this.#receivedThroughput.add(data.length());
+        if (this.handle_data_header(data)) {
+            yield undefined;
+            return;
+        }
+
+        for (const packet of this.parse_packets(data)) {
+            if (this.onInternalPacket(packet)) continue;
+            if (packet.length() >= 5 && packet.data.readUInt8(0) === RakMessages.ID_TIMESTAMP) {
+                // Like RakNet, the time is changed to our own clock so that whoever reads it doesn't have to
+                packet.data.writeUInt32LE(this.toLocalTime(packet.data.readUInt32LE(1)), 1);
+            }
+            yield packet;
+        }
+    }
+
+    /**
+     * Handles the packets a connection takes care of by itself, which are keep alives and pings
+     * @param {BitStream} packet
+     * @returns {boolean} True if the packet shouldn't be passed on
+     */
+    onInternalPacket(packet : BitStream) : boolean {
+        if (packet.length() === 0) return false;
+
+        let type = packet.data.readUInt8(0);
+        if (type === RakMessages.ID_DETECT_LOST_CONNECTIONS && packet.length() === 1) {
+            // Keep alive packets only exist to get acked, so nobody else needs to see them
+            return true;
+        }
+
+        if (type === RakMessages.ID_INTERNAL_PING && packet.length() >= 5) {
+            let pong = new BitStream();
+            pong.writeByte(RakMessages.ID_CONNECTED_PONG);
+            pong.writeLong(packet.data.readUInt32LE(1));
+            pong.writeLong(getTime());
+            this.send(pong, Reliability.UNRELIABLE, 0, PacketPriority.IMMEDIATE);
+            return true;
+        }
+
+        if (type === RakMessages.ID_CONNECTED_PONG && packet.length() >= 9) {
+            let sentTime = packet.data.readUInt32LE(1);
+            let ping = (getTime() - sentTime) >>> 0;
+            // Anything this large is a ping we never sent
+            if (ping < 60000) {
+                // Assume the pong was sent halfway through the round trip
+                let clockDifferential = (packet.data.readUInt32LE(5) - (sentTime + ping / 2)) | 0;
+                this.#pings.push({ping: ping, clockDifferential: clockDifferential});
+                if (this.#pings.length > PING_TIMES_SIZE) this.#pings.shift();
+                if (this.#lowestPing === undefined || ping < this.#lowestPing) this.#lowestPing = ping;
+            }
+            return true;
+        }
+        return false;
+    }
+
+    /**
+     * Sends an ID_INTERNAL_PING with the current time, which the remote system echoes back in an ID_CONNECTED_PONG.
+     * This is done on its own every ping interval once connected
+     */
+    ping() : void {
+        this.#lastPingSent = Date.now();
+
+        let ping = new BitStream();
+        ping.writeByte(RakMessages.ID_INTERNAL_PING);
+        ping.writeLong(getTime());
+        this.send(ping, Reliability.UNRELIABLE, 0, PacketPriority.IMMEDIATE);
+    }
+
+    /**
+     * Gets the round trip time of the latest ping in milliseconds
+     * @returns {number} undefined if no ping has come back yet
+     */
+    getLastPing() : number {
+        return this.#pings.length === 0 ? undefined : this.#pings[this.#pings.length - 1].ping;
+    }
+
+    /**
+     * Gets the average round trip time of the latest few pings in milliseconds
+     * @returns {number} undefined if no ping has come back yet
+     */
+    getAveragePing() : number {
+        if (this.#pings.length === 0) return undefined;
+        return this.#pings.reduce((total, time) => total + time.ping, 0) / this.#pings.length;
+    }
+
+    /**
+     * Gets the lowest round trip time of any ping on this connection in milliseconds
+     * @returns {number} undefined if no ping has come back yet
+     */
+    getLowestPing() : number {
+        return this.#lowestPing;
+    }
+
+    /**
+     * Gets how many milliseconds the remote clock is ahead of ours. The estimate from the latest ping with the lowest
+     * round trip time is used, since that one has the least room for error
+     * @returns {number} 0 if no ping has come back yet
+     */
+    getClockOffset() : number {
+        let best : PingTime = undefined;
+        for (const time of this.#pings) {
+            if (best === undefined || time.ping <= best.ping) best = time;
+        }
+        return best === undefined ? 0 : best.clockDifferential;
+    }
+
+    /**
+     * Converts a time from the remote system's clock to ours
+     * @param {number} remoteTime A 32 bit time like getTime returns
+     * @returns {number}
+     */
+    toLocalTime(remoteTime : number) : number {
+        return (remoteTime - this.getClockOffset()) >>> 0;
     }
 
     /**
@@ -91,29 +405,46 @@ export class ReliabilityLayer {
      */
     handle_data_header(data) {
         if (data.readBit()) { //if there are acks...
+            // The remote system echoes back the time we wrote into the datagram it is acking
             let yeOldenTime = data.readLong();
-            let rtt = (Date.now() - this.#last) / 1000 - yeOldenTime / 1000;
-            this.#last = Date.now();
-            if (this.#srrt === undefined) {
-                this.#srrt = rtt;
-                this.#rttVar = rtt / 2;
-            } else {
-                let alpha = 0.125;
-                let beta = 0.25;
-                this.#rttVar = (1 - beta) * this.#rttVar + beta * Math.abs(this.#srrt - rtt);
-                this.#srrt = (1 - alpha) * this.#srrt + alpha * rtt;
+            let rtt = ((getTime() - yeOldenTime) >>> 0) / 1000;
+            // Anything this large is a time we never sent, so don't let it ruin the estimate
+            if (rtt < 60) {
+                if (this.#srrt === undefined) {
+                    this.#srrt = rtt;
+                    this.#rttVar = rtt / 2;
+                } else {
+                    let alpha = 0.125;
+                    let beta = 0.25;
+                    this.#rttVar = (1 - beta) * this.#rttVar + beta * Math.abs(this.#srrt - rtt);
+                    this.#srrt = (1 - alpha) * this.#srrt + alpha * rtt;
+                }
+                this.#rto = Math.max(1, this.#srrt + 4 * this.#rttVar);
             }
-            this.#rto = Math.max(1, this.#srrt + 4 * this.#rttVar);
 
             let acks = new RangeList();
             acks.deserialize(data);
-            for (let i = 0; i < acks.toArray().length; i++) {
-
+            for (const range of acks.ranges) {
+                let size = ((range.max - range.min) >>> 0) + 1;
+                this.#statistics.acksReceived += size;
+                // The ranges come straight off the wire and can cover billions of numbers, so if there are fewer
+                // messages waiting on an ack than that, check those against the range instead
+                if (size <= this.#resends.size) {
+                    for (let i = 0; i < size; i++) {
+                        this.acknowledge((range.min + i) >>> 0);
+                    }
+                } else {
+                    for (const messageNumber of [...this.#resends.keys()]) {
+                        if (((messageNumber - range.min) >>> 0) < size) {
+                            this.acknowledge(messageNumber);
+                        }
+                    }
+                }
             }
-
-            //skipping a bunch of stuffs...
         }
-        if (data.allRead()) {
+        // Whatever is left of the last byte of an ack only datagram is padding, and reading it as a message would
+        // mark a message number as received that never was
+        if (data.unreadBits() < 8) {
             return true;
         }
         if (data.readBit()) {
@@ -122,6 +453,19 @@ export class ReliabilityLayer {
         return false;
     }
 
+    /**
+     * Called when the remote system acks one of our messages. It got there, so we don't have to resend it anymore
+     * @param {number} messageNumber
+     */
+    acknowledge(messageNumber : number) : void {
+        let resend = this.#resends.get(messageNumber);
+        if (resend !== undefined) {
+            this.#resends.delete(messageNumber);
+            this.onAck();
+            ReliabilityLayer.delivered(resend.receipt);
+        }
+    }
+
     /**
      * Parses the rest of the packet out so we can handle it later
      * TODO: Find out why I keep on reaching the end of the stream
@@ -132,15 +476,19 @@ export class ReliabilityLayer {
         while (!data.allRead()) {
 
             let messageNumber = data.readLong();
+            this.#statistics.messagesReceived++;
 
             let reliability = data.readBits(3);
-            assert(reliability !== Reliability.RELIABLE_SEQUENCED, "Got Reliable Sequenced! This is not used!");
+            if (reliability > Reliability.RELIABLE_SEQUENCED) {
+                // There is no telling where the next message starts, so the rest of this datagram is useless
+                this.emit('protocolError', new ProtocolError(`Got unknown reliability ${reliability} in message ${messageNumber}`));
+                return;
+            }
 
             let orderingChannel;
             let orderingIndex;
-            if (reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_ORDERED) {
+            if (ReliabilityLayer.hasOrderingIndex(reliability)) {
                 orderingChannel = data.readBits(5);
-                //assert(orderingChannel === 0, "Ordering channel not 0! Error in reading packet! Ordering Channel was " + orderingChannel);
                 orderingIndex = data.readLong();
             }
 
@@ -152,10 +500,6 @@ export class ReliabilityLayer {
                 splitPacketId = data.readShort();
                 splitPacketIndex = data.readCompressed(4).readLong();
                 splitPacketCount = data.readCompressed(4).readLong();
-
-                if (this.#queue[splitPacketId] === undefined) {
-                    this.#queue[splitPacketId] = new Array<BitStream>(splitPacketCount);
-                }
             }
 
             let length = data.readCompressed(2).readShort();
@@ -167,37 +511,40 @@ export class ReliabilityLayer {
                 packet.writeBit(data.readBit() === 1);
             }
 
+            if (ReliabilityLayer.isReliable(reliability)) {
+                if (this.#received.has(messageNumber)) {
+                    // We already handled this one and our ack must have gotten lost, so just ack it again
+                    this.#acks.add(messageNumber);
+                    this.#statistics.duplicatesDropped++;
+                    continue;
+                }
+            }
+
+            if (reliability === Reliability.RELIABLE_ORDERED &&
+                ReliabilityLayer.isAhead(orderingIndex, this.#orderedReadIndex[orderingChannel]) &&
+                (this.#outOfOrderPackets[orderingChannel].size >= MAX_OUT_OF_ORDER_PACKETS || this.#outOfOrderBytes >= MAX_OUT_OF_ORDER_BYTES)) {
+                // We are already holding back as much as we are willing to. Don't ack this one so it gets resent, by
+                // which point the gap has hopefully been filled
+                continue;
+            }
 
-            if (reliability === Reliability.RELIABLE || reliability === Reliability.RELIABLE_ORDERED) {
+            if (ReliabilityLayer.isReliable(reliability)) {
                 this.#acks.add(messageNumber);
             }
+            // Unreliable messages are numbered from the same counter, so they have to fill their place in the window too
+            this.#received.add(messageNumber);
 
             if (isSplit) {
-               if (splitPacketId !== undefined && splitPacketIndex !== undefined) {
-                    this.#queue[splitPacketId][splitPacketIndex] = packet;
-                    let ready = true;
-                    for (let i = 0; i < this.#queue[splitPacketId].length; i++) {
-                        if (this.#queue[splitPacketId][i] === undefined) {
-                            ready = false;
-                            break;
-                        }
-                    }
-                    if (ready) {
-                        //concatenate all the split packets together
-                        packet = new BitStream();
-                        for(let i = 0; i < this.#queue[splitPacketId].length; i++) {
-                            packet.concat(this.#queue[splitPacketId][i]);
-                        }
-
-                    } else {
-                        continue;
-                    }
+                packet = this.reassemble(splitPacketId, splitPacketIndex, splitPacketCount, packet);
+                if (packet === undefined) {
+                    continue;
                 }
             }
-            if (reliability === Reliability.UNRELIABLE_SEQUENCED) {
-                if (orderingIndex !== undefined) {
-                    if (orderingIndex >= this.#sequencedReadIndex) {
-                        this.#sequencedReadIndex = orderingIndex + 1;
+            if (reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_SEQUENCED) {
+                if (orderingIndex !== undefined && orderingChannel !== undefined) {
+                    // Only the latest sequenced packet matters, so anything older than what we've already seen is dropped
+                    if (((orderingIndex - this.#sequencedReadIndex[orderingChannel]) >>> 0) < 0x80000000) {
+                        this.#sequencedReadIndex[orderingChannel] = (orderingIndex + 1) >>> 0;
                     }
                     else {
                         continue;
@@ -205,19 +552,27 @@ export class ReliabilityLayer {
                 }
             } else if (reliability === Reliability.RELIABLE_ORDERED) {
                 if (orderingIndex !== undefined && orderingChannel !== undefined) {
+                    let heldBack = this.#outOfOrderPackets[orderingChannel];
 
-                    if (orderingIndex === this.#orderedReadIndex) {
-                        this.#orderedReadIndex++;
-                        let ord = orderingIndex + 1;
-                        for (let i = ord; i < this.#orderedReadIndex; i++) {
+                    if (orderingIndex === this.#orderedReadIndex[orderingChannel]) {
+                        this.#orderedReadIndex[orderingChannel] = (orderingIndex + 1) >>> 0;
+                        yield packet;
 
+                        // The gap is filled, so release everything we were holding that now lines up behind it
+                        while (heldBack.has(this.#orderedReadIndex[orderingChannel])) {
+                            let next = this.#orderedReadIndex[orderingChannel];
+                            let held = heldBack.get(next);
+                            heldBack.delete(next);
+                            this.#outOfOrderBytes -= held.length();
+                            this.#orderedReadIndex[orderingChannel] = (next + 1) >>> 0;
+                            yield held;
                         }
-                    } else if (orderingIndex < this.#orderedReadIndex) {
-                        continue;
-                    } else {
-                        // We can't release this packet because we are waiting for an earlier one?
-                        this.#outOfOrderPackets[orderingIndex] = packet;
+                    } else if (ReliabilityLayer.isAhead(orderingIndex, this.#orderedReadIndex[orderingChannel]) && !heldBack.has(orderingIndex)) {
+                        // We can't release this packet because we are still waiting for an earlier one
+                        heldBack.set(orderingIndex, packet);
+                        this.#outOfOrderBytes += packet.length();
                     }
+                    continue;
                 }
             }
             //yield packet;
@@ -226,120 +581,575 @@ export class ReliabilityLayer {
     }
 
     /**
-     * Sends a packet to a user
+     * Stores a piece of a split packet and puts the whole packet back together once every piece has arrived
+     * @param {Number} id
+     * @param {Number} index
+     * @param {Number} count
+     * @param {BitStream} packet
+     * @returns {BitStream|undefined} The reassembled packet, or undefined if we are still waiting on pieces
+     */
+    reassemble(id : number, index : number, count : number, packet : BitStream) : BitStream {
+        let group = this.#queue.get(id);
+        if (group === undefined) {
+            if (count === 0 || count > MAX_SPLIT_PACKET_COUNT) {
+                this.emit('splitPacketDropped', {id: id, count: count, received: 0, reason: 'count'});
+                return undefined;
+            }
+            if (this.#queue.size >= MAX_SPLIT_PACKET_GROUPS) {
+                // Every group costs something even before its pieces arrive, so only so many can be open at once
+                this.emit('splitPacketDropped', {id: id, count: count, received: 0, reason: 'memory'});
+                return undefined;
+            }
+            group = {
+                count: count,
+                received: 0,
+                bytes: 0,
+                // Only the pieces that have arrived are stored, so a large count doesn't cost anything up front
+                fragments: new Map(),
+                lastUpdate: Date.now()
+            };
+            this.#queue.set(id, group);
+        }
+
+        if (count !== group.count || index >= group.count) {
+            this.dropSplitPacket(id, 'count');
+            return undefined;
+        }
+
+        if (group.fragments.has(index)) {
+            // We already have this piece
+            return undefined;
+        }
+
+        if (this.#splitPacketBytes + packet.length() > MAX_SPLIT_PACKET_BYTES) {
+            this.dropSplitPacket(id, 'memory');
+            return undefined;
+        }
+
+        group.fragments.set(index, packet);
+        group.received++;
+        group.bytes += packet.length();
+        group.lastUpdate = Date.now();
+        this.#splitPacketBytes += packet.length();
+
+        if (group.received < group.count) {
+            return undefined;
+        }
+
+        //concatenate all the split packets together
+        this.#queue.delete(id);
+        this.#splitPacketBytes -= group.bytes;
+        let fragments = [];
+        for (let i = 0; i < group.count; i++) {
+            fragments.push(group.fragments.get(i).data);
+        }
+        return new BitStream(Buffer.concat(fragments));
+    }
+
+    /**
+     * Throws away a split packet we were putting back together and lets anyone listening know about it
+     * @param {Number} id
+     * @param {String} reason Either 'count', 'memory' or 'timeout'
+     */
+    dropSplitPacket(id : number, reason : string) : void {
+        let group = this.#queue.get(id);
+        if (group === undefined) return;
+
+        this.#queue.delete(id);
+        this.#splitPacketBytes -= group.bytes;
+        this.emit('splitPacketDropped', {id: id, count: group.count, received: group.received, reason: reason});
+    }
+
+    /**
+     * Drops any split packets that we haven't received a piece of in a while
+     */
+    expireSplitPackets() : void {
+        let now = Date.now();
+        for (const [id, group] of this.#queue) {
+            if (now - group.lastUpdate > SPLIT_PACKET_TIMEOUT) {
+                this.dropSplitPacket(id, 'timeout');
+            }
+        }
+    }
+
+    /**
+     * Sends a packet the same way as send, but it can also be given as a Buffer or Uint8Array, and how it is sent is
+     * given as options
+     * @param {BitStream|Buffer|Uint8Array} packet
+     * @param {SendOptions} [options]
+     * @returns {Promise<void>}
+     */
+    sendPacket(packet : BitStream | Buffer | Uint8Array, options : SendOptions = {}) : Promise<void> {
+        let stream;
+        if (packet instanceof BitStream) {
+            stream = packet;
+        } else if (Buffer.isBuffer(packet)) {
+            stream = new BitStream(packet);
+        } else {
+            stream = new BitStream(Buffer.from(packet.buffer, packet.byteOffset, packet.byteLength));
+        }
+
+        return this.send(
+            stream,
+            options.reliability !== undefined ? options.reliability : Reliability.RELIABLE_ORDERED,
+            options.channel !== undefined ? options.channel : 0,
+            options.priority !== undefined ? options.priority : PacketPriority.MEDIUM
+        );
+    }
+
+    /**
+     * Sends a packet to a user. For reliable packets the promise resolves once the remote system has acked every part
+     * of it, and rejects with a DeliveryError if we give up resending it. Unreliable packets resolve once they have
+     * been handed off to the socket
      * @param {BitStream} packet
      * @param {Number} reliability
+     * @param {Number} [orderingChannel] The channel ordered and sequenced packets are sent on, from 0 to 31
+     * @param {Number} [priority] One of PacketPriority. Immediate packets are sent right away instead of on the next tick
+     * @returns {Promise<void>}
      */
-    send(packet, reliability) {
+    send(packet, reliability, orderingChannel = 0, priority = PacketPriority.MEDIUM) : Promise<void> {
+        if (this.#closed || this.#closing !== undefined) {
+            let rejected = Promise.reject(new DeliveryError('Connection is closed', 'closed'));
+            rejected.catch(() => {});
+            return rejected;
+        }
+        assert(orderingChannel >= 0 && orderingChannel < NUMBER_OF_ORDERED_STREAMS, `Invalid ordering channel ${orderingChannel}!`);
+        assert(this.#sends[priority] !== undefined, `Invalid priority ${priority}!`);
+
         let orderingIndex;
-        if (reliability === Reliability.UNRELIABLE_SEQUENCED) {
-            orderingIndex = this.#sequencedWriteIndex;
-            this.#sequencedWriteIndex++;
+        if (reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_SEQUENCED) {
+            orderingIndex = this.#sequencedWriteIndex[orderingChannel];
+            this.#sequencedWriteIndex[orderingChannel] = (this.#sequencedWriteIndex[orderingChannel] + 1) >>> 0;
         } else if (reliability === Reliability.RELIABLE_ORDERED) {
-            orderingIndex = this.#orderedWriteIndex;
-            this.#orderedWriteIndex++;
+            orderingIndex = this.#orderedWriteIndex[orderingChannel];
+            this.#orderedWriteIndex[orderingChannel] = (this.#orderedWriteIndex[orderingChannel] + 1) >>> 0;
         } else {
             orderingIndex = undefined;
         }
 
-        if (ReliabilityLayer.packetHeaderLength(reliability, false) + packet.length() >= MTU_SIZE - UDP_HEADER_SIZE) {
+        let chunks = [packet];
+        let splitPacketId;
+        if (DATAGRAM_HEADER_LENGTH + ReliabilityLayer.packetHeaderLength(reliability, false) + packet.length() > MTU_SIZE - UDP_HEADER_SIZE) {
             let dataOffset = 0;
-            let chunks = [];
+            chunks = [];
             while(dataOffset < packet.length()) {
-                let dataLength = MTU_SIZE - UDP_HEADER_SIZE - ReliabilityLayer.packetHeaderLength(reliability, true);
-                let chunk = Buffer.alloc(dataLength);
-                packet.data.copy(chunk, 0, dataOffset, dataOffset + dataLength);
-                chunks.push(new BitStream(chunk));
+                let dataLength = MTU_SIZE - UDP_HEADER_SIZE - DATAGRAM_HEADER_LENGTH - ReliabilityLayer.packetHeaderLength(reliability, true);
+                chunks.push(new BitStream(Buffer.from(packet.data.subarray(dataOffset, dataOffset + dataLength))));
                 dataOffset += dataLength;
             }
 
-            let splitPacketId = this.#splitPacketId;
-            this.#splitPacketId ++;
-            let packets = [];
-            for(let i = 0; i < chunks.length; i ++) {
-                packets.push(new Promise((res) => {
-                    let messageNumber = this.#sendMessageNumberIndex;
-                    this.#sendMessageNumberIndex ++;
-                    this.#sends.push({
-                        'packet': chunks[i],
-                        'reliability': reliability,
-                        'orderingIndex': orderingIndex,
-                        'splitPacketInfo': {
-                            'id': splitPacketId,
-                            'index': i,
-                            'count': chunks.length
-                        },
-                        'callback': res
-                    })
-                }));
-            }
+            splitPacketId = this.#splitPacketId;
+            this.#splitPacketId = (this.#splitPacketId + 1) & 0xFFFF;
+        }
 
-            return Promise.all(packets);
+        let promise = new Promise<void>((resolve, reject) => {
+            let receipt : Receipt = {
+                remaining: chunks.length,
+                resolve: resolve,
+                reject: reject
+            };
 
-        } else {
-            return new Promise((res) => {
-                this.#sends.push({
-                    'packet': packet,
+            for(let i = 0; i < chunks.length; i ++) {
+                this.#sends[priority].push({
+                    'packet': chunks[i],
                     'reliability': reliability,
                     'orderingIndex': orderingIndex,
-                    'splitPacketInfo': undefined,
-                    'callback': res
+                    'orderingChannel': orderingChannel,
+                    'splitPacketInfo': splitPacketId === undefined ? undefined : {
+                        'id': splitPacketId,
+                        'index': i,
+                        'count': chunks.length
+                    },
+                    'receipt': receipt
                 });
+            }
+        });
+        // Plenty of packets are sent without anyone waiting on them, and those shouldn't crash us when they fail
+        promise.catch(() => {});
+
+        if (priority === PacketPriority.IMMEDIATE) {
+            this.sendLoop(true);
+        }
+        return promise;
+    }
+
+    /**
+     * Marks one more part of a packet as delivered, and resolves its promise once every part is
+     * @param {Receipt} receipt
+     */
+    static delivered(receipt : Receipt) : void {
+        receipt.remaining--;
+        if (receipt.remaining === 0) {
+            receipt.resolve();
+        }
+    }
+
+    /**
+     * Called every tick to do all the upkeep for this connection
+     */
+    update() {
+        let now = Date.now();
+        if (now - this.#lastReceived > this.#timeout) {
+            this.lose();
+            return;
+        }
+
+        if (now - this.#lastReceived > this.#keepAliveInterval && this.#resends.size === 0 && this.#closing === undefined) {
+            // We haven't heard from them in a while, so send something that has to be acked to make sure they're still there
+            this.send(new BitStream(Buffer.from([RakMessages.ID_DETECT_LOST_CONNECTIONS])), Reliability.RELIABLE);
+        }
+
+        if (this.#state === ConnectionState.CONNECTED && this.#closing === undefined && now - this.#lastPingSent >= this.#pingInterval) {
+            this.ping();
+        }
+
+        this.expireSplitPackets();
+        this.sendLoop();
+
+        if (this.#closing !== undefined && this.pendingSends() === 0 && this.#resends.size === 0) {
+            // Everything we had left to send has gotten there
+            this.destroy();
+        }
+    }
+
+    /**
+     * Closes this connection. By default everything already queued is sent and acked first, which is given up on if
+     * the connection times out. Anything sent after this is rejected
+     * @param {boolean} [flush] Set to false to drop everything still queued and close right away
+     * @returns {Promise<void>} Resolves once the connection is closed
+     */
+    close(flush : boolean = true) : Promise<void> {
+        if (this.#closed) return Promise.resolve();
+
+        if (this.#closing === undefined) {
+            this.#closing = new Promise((resolve) => {
+                this.#onClosed = resolve;
             });
         }
+
+        if (!flush) {
+            this.destroy();
+        }
+        return this.#closing;
+    }
+
+    /**
+     * Gets the number of packets waiting in the send queues
+     * @returns {number}
+     */
+    pendingSends() : number {
+        let pending = 0;
+        for (let i = 0; i < this.#sends.length; i++) {
+            pending += this.#sends[i].length;
+        }
+        return pending;
+    }
+
+    /**
+     * Tears down a connection that has stopped responding and lets anyone listening know
+     */
+    lose() : void {
+        if (this.#closed) return;
+
+        this.destroy(new DeliveryError('Connection was lost', 'timeout'));
+        this.emit('connectionLost');
+    }
+
+    /**
+     * Shuts this connection down right away. Anything still waiting to be sent or acked is dropped and its promise is
+     * rejected
+     * @param {Error} [error] What to reject pending sends with
+     */
+    destroy(error : Error = new DeliveryError('Connection was closed', 'closed')) : void {
+        if (this.#closed) return;
+        this.#closed = true;
+
+        clearInterval(this.#interval);
+
+        for (const resend of this.#resends.values()) {
+            resend.receipt.reject(error);
+        }
+        for (let i = 0; i < this.#sends.length; i++) {
+            for (let j = 0; j < this.#sends[i].length; j++) {
+                this.#sends[i][j].receipt.reject(error);
+            }
+            this.#sends[i] = [];
+        }
+
+        this.#resends.clear();
+        this.#queue.clear();
+        this.#splitPacketBytes = 0;
+        this.#acks.empty();
+        for (let i = 0; i < this.#outOfOrderPackets.length; i++) {
+            this.#outOfOrderPackets[i].clear();
+        }
+        this.#outOfOrderBytes = 0;
+
+        if (this.#onClosed !== undefined) {
+            this.#onClosed();
+        }
+    }
+
+    /**
+     * Returns true once this connection has been shut down
+     * @returns {boolean}
+     */
+    get closed() : boolean {
+        return this.#closed;
+    }
+
+    /**
+     * Gets how far along the connection handshake this connection is
+     * @returns {number} One of ConnectionState
+     */
+    get state() : number {
+        return this.#state;
+    }
+
+    /**
+     * @param {number} state One of ConnectionState
+     */
+    set state(state : number) {
+        this.#state = state;
+    }
+
+    /**
+     * Gets the index the server gave this connection when it accepted it, which it tells the remote system in its
+     * ID_CONNECTION_REQUEST_ACCEPTED
+     * @returns {number}
+     */
+    get systemIndex() : number {
+        return this.#systemIndex;
+    }
+
+    /**
+     * @param {number} systemIndex
+     */
+    set systemIndex(systemIndex : number) {
+        this.#systemIndex = systemIndex;
+    }
+
+    /**
+     * Gets the address of the remote system
+     */
+    get address() : SystemAddress {
+        return this.#connection;
     }
 
     /**
      * This loops until the connection is closed. Think of it as a sending thread
+     * @param {boolean} [immediateOnly] Only send the immediate packets, like when one was just queued
      */
-    sendLoop() {
+    sendLoop(immediateOnly : boolean = false) {
+        let now = Date.now();
+        let window = Math.floor(this.#congestionWindow);
+        let messages = [];
 
-        while (this.#sends.length > 0) {
-            // TODO: Need to actually do resends for my own packets. This is related
-            // if (this.packetsSent > this.congestionWindow) break;
-            let packet = this.#sends.pop();
+        // Resend anything that hasn't been acked within the retransmission timeout
+        let resent = 0;
+        for (const [messageNumber, resend] of this.#resends) {
+            if (immediateOnly || resent >= window) break;
+            if (resend.nextSend > now) continue;
 
-            this.#packetsSent++;
+            if (now - resend.firstSend > this.#timeout) {
+                // It's never going to get there, so the remote system must be gone
+                this.lose();
+                return;
+            }
+
+            this.onLoss(now);
+            resent++;
+            this.#statistics.messagesResent++;
+            resend.nextSend = now + this.#rto * 1000;
+            messages.push({'message': resend, 'messageNumber': messageNumber, 'callback': undefined});
+        }
+
+        let queue = (packet : QueuedMessage) => {
+            this.#statistics.messagesSent++;
             let index = this.#sendMessageNumberIndex;
-            this.#sendMessageNumberIndex++;
+            this.#sendMessageNumberIndex = (this.#sendMessageNumberIndex + 1) >>> 0;
 
-            this.sendMessage(packet.packet, index, packet.reliability, packet.orderingIndex, packet.splitPacketInfo, packet.callback);
+            if (ReliabilityLayer.isReliable(packet.reliability)) {
+                // Keep hold of it until the other side tells us they got it
+                packet.firstSend = now;
+                packet.nextSend = now + this.#rto * 1000;
+                this.#resends.set(index, packet);
+                messages.push({'message': packet, 'messageNumber': index, 'callback': undefined});
+            } else {
+                messages.push({'message': packet, 'messageNumber': index, 'callback': () => {
+                    ReliabilityLayer.delivered(packet.receipt);
+                }});
+            }
+        };
+
+        // Immediate packets are things like pongs and keep alives that are useless if they are late, so they don't
+        // wait on the congestion window
+        let immediate = this.#sends[PacketPriority.IMMEDIATE];
+        while (immediate.length > 0) {
+            queue(immediate.shift());
+        }
+
+        if (immediateOnly) {
+            if (messages.length > 0) this.sendDatagrams(messages);
+            return;
+        }
+
+        // Unacked reliable messages are in flight until they are acked, unreliable ones only for this tick
+        let inFlight = this.#resends.size;
+        while (inFlight < window) {
+            let packet = this.nextSend();
+            if (packet === undefined) break;
+
+            inFlight++;
+            queue(packet);
+        }
+
+        this.sendDatagrams(messages);
+    }
+
+    /**
+     * Takes the next packet to send off of the send queues. Immediate packets always go first, then each of the other
+     * priorities take turns by weight so that low priority packets still get out while there are higher ones waiting
+     * @returns {QueuedMessage|undefined} undefined if there is nothing left to send
+     */
+    nextSend() : QueuedMessage {
+        if (this.#sends[PacketPriority.IMMEDIATE].length > 0) {
+            return this.#sends[PacketPriority.IMMEDIATE].shift();
+        }
+
+        for (let round = 0; round < 2; round++) {
+            for (let priority = PacketPriority.HIGH; priority <= PacketPriority.LOW; priority++) {
+                if (this.#sends[priority].length > 0 && this.#priorityTurns[priority] > 0) {
+                    this.#priorityTurns[priority]--;
+                    return this.#sends[priority].shift();
+                }
+            }
+            // Everything with packets waiting has used up its turns, so start a new round
+            this.#priorityTurns = PRIORITY_WEIGHTS.slice();
+        }
+        return undefined;
+    }
+
+    /**
+     * Packs as many messages as will fit into each datagram, along with any acks we owe the remote system
+     * @param {Array<Object>} messages
+     */
+    sendDatagrams(messages) {
+        let budget = (MTU_SIZE - UDP_HEADER_SIZE) * 8;
+
+        let datagram = this.startDatagram();
+        let hasAcks = datagram.bits() > 1;
+        let count = 0;
+        let callbacks = [];
+
+        for (let i = 0; i < messages.length; i++) {
+            let message = messages[i].message;
+            let length = (ReliabilityLayer.packetHeaderLength(message.reliability, message.splitPacketInfo !== undefined) + message.packet.length()) * 8;
+            if (count === 0) {
+                // The time only gets written in front of the first message
+                length += 33;
+            }
+
+            if (datagram.bits() + length > budget && (count > 0 || hasAcks)) {
+                this.sendDatagram(datagram, callbacks);
+                datagram = this.startDatagram();
+                hasAcks = datagram.bits() > 1;
+                count = 0;
+                callbacks = [];
+                i--;
+                continue;
+            }
+
+            if (count === 0) {
+                // Our own time goes here so the remote system can echo it back in its acks
+                let hasTime = true;
+                datagram.writeBit(hasTime);
+                datagram.writeLong(getTime());
+            }
+
+            this.writeMessage(datagram, message.packet, messages[i].messageNumber, message.reliability, message.orderingIndex, message.orderingChannel, message.splitPacketInfo);
+            if (messages[i].callback !== undefined) callbacks.push(messages[i].callback);
+            count++;
         }
 
-        if(!this.#acks.isEmpty()) {
-            let send = new BitStream();
-            send.writeBit(true);
-            send.writeLong(this.#remoteSystemTime);
-            send.writeBitStream(this.#acks.serialize());
-            this.#acks.empty();
-            this.#server.send(send.data, this.#connection.port, this.#connection.address);
+        if (count > 0 || hasAcks) {
+            this.sendDatagram(datagram, callbacks);
         }
     }
 
     /**
-     * This is to send a message to a client. Used internally
+     * Starts a new datagram, with as many of the acks we owe as will fit in it
+     * @returns {BitStream}
+     */
+    startDatagram() : BitStream {
+        let datagram = new BitStream();
+        datagram.writeBit(!this.#acks.isEmpty());
+        if (!this.#acks.isEmpty()) {
+            let acks = new RangeList();
+            acks.ranges = this.#acks.ranges.splice(0, MAX_ACK_RANGES);
+            for (let i = 0; i < acks.ranges.length; i++) {
+                this.#statistics.acksSent += acks.ranges[i].max - acks.ranges[i].min + 1;
+            }
+            datagram.writeLong(this.#remoteSystemTime);
+            datagram.writeBitStream(acks.serialize());
+        }
+        return datagram;
+    }
+
+    /**
+     * Sends a finished datagram over the socket
+     * @param {BitStream} datagram
+     * @param {Array<Function>} callbacks Called once the socket has sent it
+     */
+    sendDatagram(datagram : BitStream, callbacks : Array<Function>) : void {
+        this.#statistics.bytesSent += datagram.length();
+        this.#sentThroughput.add(datagram.length());
+        this.#server.send(datagram.data, this.#connection.port, this.#connection.address, () => {
+            for (let i = 0; i < callbacks.length; i++) {
+                callbacks[i]();
+            }
+        });
+    }
+
+    /**
+     * Grows the congestion window when a message is acked. Exponentially during slow start, linearly after that
+     */
+    onAck() {
+        if (this.#congestionWindow < this.#slowStartThreshold) {
+            this.#congestionWindow += 1;
+        } else {
+            this.#congestionWindow += 1 / this.#congestionWindow;
+        }
+        this.#congestionWindow = Math.min(this.#congestionWindow, MAX_CONGESTION_WINDOW);
+    }
+
+    /**
+     * Halves the congestion window when a message had to be resent. Only backs off once per round trip since a
+     * single burst of loss will time out a lot of messages at once
+     * @param {Number} now
+     */
+    onLoss(now) {
+        let rtt = this.#srrt === undefined ? this.#rto : this.#srrt;
+        // On a LAN the round trip can measure as nothing, and everything lost in the same tick is still one burst
+        if (now - this.#lastCongestionEvent < Math.max(rtt * 1000, 1)) return;
+
+        this.#lastCongestionEvent = now;
+        this.#slowStartThreshold = Math.max(this.#congestionWindow / 2, MIN_CONGESTION_WINDOW);
+        this.#congestionWindow = this.#slowStartThreshold;
+    }
+
+    /**
+     * Writes a single message into a datagram. Used internally
+     * @param {BitStream} send The datagram
      * @param {BitStream} data
      * @param {Number} messageNumber
      * @param {Number} reliability
      * @param {Number} index
+     * @param {Number} channel
      * @param {Object} splitPacketInfo
-     * @param {Function} callback
      */
-    sendMessage(data, messageNumber, reliability, index, splitPacketInfo, callback) {
-        let send = new BitStream();
-        send.writeBit(!this.#acks.isEmpty() && false);
-        if (!this.#acks.isEmpty() && false) {
-            send.writeLong(this.#remoteSystemTime);
-            send.writeBitStream(this.#acks.serialize());
-            this.#acks.empty();
-        }
-
-        assert(ReliabilityLayer.packetHeaderLength(reliability, splitPacketInfo !== undefined) + data.length() <= MTU_SIZE - UDP_HEADER_SIZE, 'Packet sent was too large!');
-
-        // TODO: Actually keep track of system time
-        let hasRemoteSystemTime = true;
-        send.writeBit(hasRemoteSystemTime);
-        send.writeLong(this.#remoteSystemTime);
+    writeMessage(send, data, messageNumber, reliability, index, channel, splitPacketInfo) {
+        assert(DATAGRAM_HEADER_LENGTH + ReliabilityLayer.packetHeaderLength(reliability, splitPacketInfo !== undefined) + data.length() <= MTU_SIZE - UDP_HEADER_SIZE, 'Packet sent was too large!');
 
         // Write the message "index"
         send.writeLong(messageNumber);
@@ -348,8 +1158,8 @@ export class ReliabilityLayer {
         send.writeBits(reliability, 3);
 
         // If this packet needs the index because of its reliability
-        if (reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_ORDERED) {
-            send.writeBits(0, 5);
+        if (ReliabilityLayer.hasOrderingIndex(reliability)) {
+            send.writeBits(channel, 5);
             send.writeLong(index);
         }
 
@@ -364,18 +1174,74 @@ export class ReliabilityLayer {
 
         send.alignWrite();
 
+        // Read straight from the buffer so the same packet can be written again when it is resent
         for(let i = 0; i < data.length(); i ++) {
-            send.writeByte(data.readByte());
+            send.writeByte(data.data.readUInt8(i));
         }
+    }
 
-        this.#server.send(send.data, this.#connection.port, this.#connection.address, () => {
-            callback(send);
-        });
-        // Sends actual data to client here
+    /**
+     * Gets a snapshot of the statistics for this connection. Times are in milliseconds
+     * @returns {RakNetStatistics}
+     */
+    getStatistics() : RakNetStatistics {
+        let heldBackPackets = 0;
+        for (let i = 0; i < this.#outOfOrderPackets.length; i++) {
+            heldBackPackets += this.#outOfOrderPackets[i].size;
+        }
+
+        return {
+            bytesSent: this.#statistics.bytesSent,
+            bytesReceived: this.#statistics.bytesReceived,
+            messagesSent: this.#statistics.messagesSent,
+            messagesReceived: this.#statistics.messagesReceived,
+            messagesResent: this.#statistics.messagesResent,
+            acksSent: this.#statistics.acksSent,
+            acksReceived: this.#statistics.acksReceived,
+            duplicatesDropped: this.#statistics.duplicatesDropped,
+            splitPacketsInFlight: this.#queue.size,
+            sendQueueDepth: this.#sends.map((queue) => queue.length),
+            resendQueueDepth: this.#resends.size,
+            heldBackPackets: heldBackPackets,
+            congestionWindow: this.#congestionWindow,
+            rtt: this.#srrt === undefined ? undefined : this.#srrt * 1000,
+            rto: this.#rto * 1000,
+            bytesSentPerSecond: this.#sentThroughput.perSecond(),
+            bytesReceivedPerSecond: this.#receivedThroughput.perSecond()
+        };
+    }
+
+    /**
+     * Returns true if a 32 bit index comes after another one, allowing for the indices wrapping around
+     * @param {number} index
+     * @param {number} base
+     * @returns {boolean}
+     */
+    static isAhead(index : number, base : number) : boolean {
+        let distance = (index - base) >>> 0;
+        return distance !== 0 && distance < 0x80000000;
     }
 
     /**
-     *
+     * Returns true if messages with this reliability have to be acked and resent
+     * @param {Number} reliability
+     * @returns {boolean}
+     */
+    static isReliable(reliability) {
+        return reliability === Reliability.RELIABLE || reliability === Reliability.RELIABLE_ORDERED || reliability === Reliability.RELIABLE_SEQUENCED;
+    }
+
+    /**
+     * Returns true if messages with this reliability are sent with an ordering channel and index
+     * @param {Number} reliability
+     * @returns {boolean}
+     */
+    static hasOrderingIndex(reliability) {
+        return reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_ORDERED || reliability === Reliability.RELIABLE_SEQUENCED;
+    }
+
+    /**
+     * Gets the most bytes the header of a message could take up, including the padding before its data
      * @param {Number} reliability
      * @param {Boolean} split
      * @returns {number}
@@ -383,19 +1249,21 @@ export class ReliabilityLayer {
     static packetHeaderLength(reliability, split) {
         let length = 32;
         length += 3;
-        if (reliability === Reliability.UNRELIABLE_SEQUENCED || reliability === Reliability.RELIABLE_ORDERED) {
+        if (ReliabilityLayer.hasOrderingIndex(reliability)) {
             length += 5;
             length += 32;
         }
         length += 1;
 
+        // Compressed numbers take an extra bit at worst
         if (split) {
             length += 16;
-            length += 32;
-            length += 32;
+            length += 33;
+            length += 33;
         }
 
-        length += 16;
+        length += 17;
+        length += 7;
         return Math.ceil(length / 8);
     }
 }
\ No newline at end of file
@@ -0,0 +1,232 @@
+/**
+ * A single ban. Expires is a timestamp in milliseconds, or null if the ban is permanent
+ */
+export interface Ban {
+    range : string;
+    reason : string;
+    expires : number | null;
+}
+
+/**
+ * A parsed IPv4 range. Anything we can't parse as IPv4 only matches the exact same string
+ */
+interface BanRange {
+    network : number;
+    mask : number;
+}
+
+/**
+ * Keeps track of banned ips and CIDR ranges, like 10.0.0.4 or 10.0.0.0/24. Bans that have expired are thrown away
+ * whenever we come across them.
+ */
+export class BanList {
+    readonly #bans : Map<string, Ban>;
+    readonly #ranges : Map<string, BanRange>;
+
+    /**
+     * Constructs a new BanList
+     */
+    constructor() {
+        this.#bans = new Map();
+        this.#ranges = new Map();
+    }
+
+    /**
+     * Bans an ip or range. Banning a range that is already banned replaces the old ban
+     * @param {string} range
+     * @param {number} [duration] How long the ban lasts in milliseconds. It lasts forever if this isn't given
+     * @param {string} [reason]
+     * @param {number} [now]
+     * @returns {Ban}
+     */
+    add(range : string, duration? : number, reason : string = '', now : number = Date.now()) : Ban {
+        let expires = duration === undefined || duration === Infinity ? null : now + duration;
+        return this.insert({range: range, reason: reason, expires: expires});
+    }
+
+    /**
+     * Lifts the ban on an ip or range. It has to be written the same way it was banned
+     * @param {string} range
+     * @returns {boolean} False if it wasn't banned
+     */
+    remove(range : string) : boolean {
+        let key = BanList.normalize(range);
+        this.#ranges.delete(key);
+        return this.#bans.delete(key);
+    }
+
+    /**
+     * Finds the ban that covers an ip, if there is one
+     * @param {string} address
+     * @param {number} [now]
+     * @returns {Ban}
+     */
+    find(address : string, now : number = Date.now()) : Ban {
+        this.prune(now);
+
+        let ip = BanList.parseIPv4(address);
+        for (const [key, ban] of this.#bans) {
+            let range = this.#ranges.get(key);
+            if (range === undefined || ip === undefined) {
+                if (key === address) return ban;
+            } else if (((ip & range.mask) >>> 0) === range.network) {
+                return ban;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Returns true if an ip is covered by a ban that hasn't expired
+     * @param {string} address
+     * @param {number} [now]
+     * @returns {boolean}
+     */
+    has(address : string, now : number = Date.now()) : boolean {
+        return this.find(address, now) !== undefined;
+    }
+
+    /**
+     * Gets every ban that hasn't expired
+     * @param {number} [now]
+     * @returns {Array<Ban>}
+     */
+    list(now : number = Date.now()) : Array<Ban> {
+        this.prune(now);
+        return [...this.#bans.values()].map((ban) => Object.assign({}, ban));
+    }
+
+    /**
+     * Throws away the bans that have expired
+     * @param {number} [now]
+     * @returns {number} How many bans were thrown away
+     */
+    prune(now : number = Date.now()) : number {
+        let pruned = 0;
+        for (const [key, ban] of this.#bans) {
+            if (ban.expires !== null && ban.expires <= now) {
+                this.#bans.delete(key);
+                this.#ranges.delete(key);
+                pruned++;
+            }
+        }
+        return pruned;
+    }
+
+    /**
+     * @returns {Array<Ban>}
+     */
+    toJSON() : Array<Ban> {
+        return this.list();
+    }
+
+    /**
+     * Adds the bans from a list saved with JSON.stringify. Ones that have expired since are skipped
+     * @param {string|Array<Ban>} json
+     * @param {number} [now]
+     */
+    load(json : string | Array<Ban>, now : number = Date.now()) : void {
+        let bans : Array<Ban> = typeof json === 'string' ? JSON.parse(json) : json;
+        if (!Array.isArray(bans)) {
+            throw new Error('Expected a list of bans');
+        }
+
+        for (const ban of bans) {
+            if (typeof ban.range !== 'string') {
+                throw new Error('Every ban needs a range');
+            }
+            let expires = typeof ban.expires === 'number' ? ban.expires : null;
+            if (expires !== null && expires <= now) continue;
+            this.insert({range: ban.range, reason: ban.reason || '', expires: expires});
+        }
+    }
+
+    /**
+     * @returns {number}
+     */
+    get size() : number {
+        return this.#bans.size;
+    }
+
+    /**
+     * Stores a ban under its normalized range
+     * @param {Ban} ban
+     * @returns {Ban}
+     */
+    insert(ban : Ban) : Ban {
+        let key = BanList.normalize(ban.range);
+        ban.range = key;
+        this.#bans.set(key, ban);
+
+        let range = BanList.parseRange(key);
+        if (range !== undefined) {
+            this.#ranges.set(key, range);
+        } else {
+            this.#ranges.delete(key);
+        }
+        return Object.assign({}, ban);
+    }
+
+    /**
+     * Returns true if an ip is inside of a range
+     * @param {string} range
+     * @param {string} address
+     * @returns {boolean}
+     */
+    static matches(range : string, address : string) : boolean {
+        let parsed = BanList.parseRange(range);
+        let ip = BanList.parseIPv4(address);
+        if (parsed === undefined || ip === undefined) {
+            return BanList.normalize(range) === address;
+        }
+        return ((ip & parsed.mask) >>> 0) === parsed.network;
+    }
+
+    /**
+     * Writes a range the same way every time, so 10.0.0.7/24 and 10.0.0.0/24 are the same ban, and a /32 is just the ip
+     * @param {string} range
+     * @returns {string}
+     */
+    static normalize(range : string) : string {
+        let parsed = BanList.parseRange(range);
+        if (parsed === undefined) {
+            return range;
+        }
+
+        let hostBits = 32 - Math.clz32(~parsed.mask >>> 0);
+        let network = [24, 16, 8, 0].map((shift) => (parsed.network >>> shift) & 0xFF).join('.');
+        return hostBits === 0 ? network : `${network}/${32 - hostBits}`;
+    }
+
+    /**
+     * Reads an IPv4 CIDR range, or a single ip
+     * @param {string} range
+     * @returns {BanRange}
+     */
+    static parseRange(range : string) : BanRange {
+        let [address, prefix] = range.split('/');
+        let ip = BanList.parseIPv4(address);
+        if (ip === undefined) return undefined;
+
+        let length = prefix === undefined ? 32 : Number(prefix);
+        if (!/^\d+$/.test(prefix === undefined ? '32' : prefix) || length > 32) {
+            throw new Error(`${range} is not a valid range`);
+        }
+
+        let mask = length === 0 ? 0 : (0xFFFFFFFF << (32 - length)) >>> 0;
+        return {network: (ip & mask) >>> 0, mask: mask};
+    }
+
+    /**
+     * Turns an IPv4 address into a number
+     * @param {string} address
+     * @returns {number} undefined if it isn't an IPv4 address
+     */
+    static parseIPv4(address : string) : number {
+        let parts = address.split('.');
+        if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+            return undefined;
+        }
+        return parts.reduce((ip, part) => ((ip << 8) | Number(part)) >>> 0, 0);
+    }
+}
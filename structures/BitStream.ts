@@ -75,6 +75,14 @@ export default class BitStream {
         return this.#readBytePosition * 8 + this.#readBitPosition >= this.#byteCount * 8 - 1;
     }
 
+    /**
+     * Gets the number of bits left to read, including any padding at the end of the last byte
+     * @returns {number}
+     */
+    unreadBits() : number {
+        return this.#byteCount * 8 - (this.#readBytePosition * 8 + 7 - this.#readBitPosition);
+    }
+
     /**
      * Reads a single bit from the Buffer
      * @returns {number}
@@ -518,13 +526,13 @@ export default class BitStream {
             if(b) {
                 currentByte --;
             } else {
-
-                for(let i = 0; i < size - currentByte - 1; i++) {
-                    ret.writeByte(0);
-                }
+                // The bytes we read are the low ones, and the zero bytes we skipped go on top of them
                 for(let i = 0; i < currentByte + 1; i ++) {
                     ret.writeByte(this.readByte());
                 }
+                for(let i = 0; i < size - currentByte - 1; i++) {
+                    ret.writeByte(0);
+                }
                 return ret;
             }
         }
@@ -114,11 +114,11 @@ class RangeList {
     toArray() {
         let ret = [];
         for (let i = 0; i < this.ranges.length; i++) {
-            ret.concat(this.ranges[i].toArray()).sort(function (a, b) {
-                return a - b;
-            });
+            ret = ret.concat(this.ranges[i].toArray());
         }
-        return ret;
+        return ret.sort(function (a, b) {
+            return a - b;
+        });
     }
 }
 exports.RangeList = RangeList;
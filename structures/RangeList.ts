@@ -126,11 +126,11 @@ export class RangeList {
     toArray() : Array<number> {
         let ret = [];
         for(let i = 0; i < this.ranges.length; i ++) {
-            ret.concat(this.ranges[i].toArray()).sort(function(a,b) {
-                return a - b;
-            });
+            ret = ret.concat(this.ranges[i].toArray());
         }
-        return ret;
+        return ret.sort(function(a,b) {
+            return a - b;
+        });
     }
 }
 
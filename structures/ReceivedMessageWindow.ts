@@ -0,0 +1,80 @@
+/**
+ * Keeps track of which message numbers we have already received so that resent messages are only handled once.
+ * Everything below the base of the window has been received, and anything above it is remembered individually until
+ * the gap below it has been filled. Gaps left by messages that never arrive (like lost unreliable ones) are given up on
+ * once the window has to slide past them. Message numbers are 32 bits, so all the comparisons wrap around.
+ */
+export class ReceivedMessageWindow {
+    #base : number;
+    #received : Set<number>;
+    readonly #size : number;
+
+    /**
+     * Constructs a new ReceivedMessageWindow
+     * @param {number} [size] How far past the base we are willing to remember message numbers
+     * @param {number} [base] The first message number we expect to receive
+     */
+    constructor(size : number = 65536, base : number = 0) {
+        this.#base = base >>> 0;
+        this.#received = new Set();
+        this.#size = size;
+    }
+
+    /**
+     * Returns true if we have already received this message number
+     * @param {number} n
+     * @returns {boolean}
+     */
+    has(n : number) : boolean {
+        if (((n - this.#base) >>> 0) >= 0x80000000) {
+            // It is behind the window, so we must have gotten it already
+            return true;
+        }
+        return this.#received.has(n);
+    }
+
+    /**
+     * Returns true if this message number is close enough to the base for us to remember it
+     * @param {number} n
+     * @returns {boolean}
+     */
+    inWindow(n : number) : boolean {
+        return ((n - this.#base) >>> 0) < this.#size;
+    }
+
+    /**
+     * Marks a message number as received and slides the window forward if we can. If it is too far ahead of the base,
+     * the window is slid forward far enough to fit it and any gaps it slides past are treated as received
+     * @param {number} n
+     * @returns {boolean} False if the message number is behind the window, so it was already received
+     */
+    add(n : number) : boolean {
+        if (((n - this.#base) >>> 0) >= 0x80000000) {
+            return false;
+        }
+
+        if (!this.inWindow(n)) {
+            this.#base = (n - this.#size + 1) >>> 0;
+            for (const received of this.#received) {
+                if (((received - this.#base) >>> 0) >= 0x80000000) {
+                    this.#received.delete(received);
+                }
+            }
+        }
+
+        this.#received.add(n);
+        while (this.#received.has(this.#base)) {
+            this.#received.delete(this.#base);
+            this.#base = (this.#base + 1) >>> 0;
+        }
+        return true;
+    }
+
+    /**
+     * Gets the lowest message number we have not received yet
+     * @returns {number}
+     */
+    get base() : number {
+        return this.#base;
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Adds up values over a sliding window of time, like the number of bytes sent over the last few seconds
+ */
+export class SlidingWindowCounter {
+    readonly #window : number;
+    readonly #bucketSize : number;
+    #buckets : Array<{time : number, value : number}>;
+
+    /**
+     * Constructs a new SlidingWindowCounter
+     * @param {number} [window] How far back to count in milliseconds
+     * @param {number} [bucketSize] How many milliseconds get lumped together
+     */
+    constructor(window : number = 5000, bucketSize : number = 100) {
+        this.#window = window;
+        this.#bucketSize = bucketSize;
+        this.#buckets = [];
+    }
+
+    /**
+     * Adds a value at the given time
+     * @param {number} value
+     * @param {number} [now]
+     */
+    add(value : number, now : number = Date.now()) : void {
+        let time = now - now % this.#bucketSize;
+        let last = this.#buckets[this.#buckets.length - 1];
+        if (last !== undefined && last.time === time) {
+            last.value += value;
+        } else {
+            this.#buckets.push({time: time, value: value});
+        }
+        this.prune(now);
+    }
+
+    /**
+     * Gets the sum of everything added within the window
+     * @param {number} [now]
+     * @returns {number}
+     */
+    total(now : number = Date.now()) : number {
+        this.prune(now);
+        let total = 0;
+        for (let i = 0; i < this.#buckets.length; i++) {
+            total += this.#buckets[i].value;
+        }
+        return total;
+    }
+
+    /**
+     * Gets the average per second over the window
+     * @param {number} [now]
+     * @returns {number}
+     */
+    perSecond(now : number = Date.now()) : number {
+        return this.total(now) / (this.#window / 1000);
+    }
+
+    /**
+     * Throws away the buckets that have fallen out of the window
+     * @param {number} now
+     */
+    prune(now : number) : void {
+        while (this.#buckets.length > 0 && this.#buckets[0].time <= now - this.#window) {
+            this.#buckets.shift();
+        }
+    }
+}
@@ -0,0 +1,85 @@
+import BitStream from './BitStream';
+
+/**
+ * The address of a remote system. Two systems behind the same NAT share an ip, so the port (and family) are needed to
+ * tell them apart. The string form is used as the key when storing connections in a Map.
+ */
+export class SystemAddress {
+    readonly address : string;
+    readonly port : number;
+    readonly family : string;
+
+    /**
+     * Constructs a new SystemAddress
+     * @param {string} address
+     * @param {number} port
+     * @param {string} [family] Either IPv4 or IPv6
+     */
+    constructor(address : string, port : number, family : string = 'IPv4') {
+        this.address = address;
+        this.port = port;
+        this.family = family;
+    }
+
+    /**
+     * Makes a SystemAddress from the remote info dgram hands us with a message
+     * @param {{address : string, port : number, family? : string}} info
+     * @returns {SystemAddress}
+     */
+    static from(info : {address : string, port : number, family? : string}) : SystemAddress {
+        if(info instanceof SystemAddress) {
+            return info;
+        }
+        return new SystemAddress(info.address, info.port, info.family);
+    }
+
+    /**
+     * Reads an address written by toString, like 127.0.0.1:1001 or [::1]:1001
+     * @param {string} str
+     * @returns {SystemAddress}
+     */
+    static parse(str : string) : SystemAddress {
+        let match = /^\[(.+)]:(\d+)$/.exec(str);
+        if(match !== null) {
+            return new SystemAddress(match[1], Number(match[2]), 'IPv6');
+        }
+
+        match = /^([^:]+):(\d+)$/.exec(str);
+        if(match !== null) {
+            return new SystemAddress(match[1], Number(match[2]), 'IPv4');
+        }
+
+        throw new Error(`${str} is not a valid address`);
+    }
+
+    /**
+     * Returns true if both addresses point at the same system
+     * @param {SystemAddress} other
+     * @returns {boolean}
+     */
+    equals(other : SystemAddress) : boolean {
+        return this.address === other.address && this.port === other.port && this.family === other.family;
+    }
+
+    /**
+     * Writes an IPv4 address and port the way RakNet does in a SystemAddress
+     * @param {BitStream} stream
+     */
+    write(stream : BitStream) : void {
+        let parts = this.address.split('.');
+        for(let i = 0; i < 4; i++) {
+            stream.writeByte(Number(parts[i]) || 0);
+        }
+        stream.writeShort(this.port);
+    }
+
+    /**
+     * @returns {string}
+     */
+    toString() : string {
+        if(this.family === 'IPv6') {
+            return `[${this.address}]:${this.port}`;
+        }
+        return `${this.address}:${this.port}`;
+    }
+}
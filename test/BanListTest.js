@@ -0,0 +1,60 @@
+const assert = require('assert');
+const {BanList} = require('../structures/BanList');
+
+describe('BanList', () => {
+    describe('add', () => {
+        it('should ban a single ip', () => {
+            let bans = new BanList();
+            bans.add('10.0.0.4');
+            assert.strictEqual(bans.has('10.0.0.4'), true);
+            assert.strictEqual(bans.has('10.0.0.5'), false);
+        });
+        it('should ban every ip in a CIDR range', () => {
+            let bans = new BanList();
+            bans.add('10.0.0.7/24', undefined, 'spam');
+            assert.strictEqual(bans.has('10.0.0.200'), true);
+            assert.strictEqual(bans.has('10.0.1.1'), false);
+            assert.strictEqual(bans.find('10.0.0.1').reason, 'spam');
+            assert.strictEqual(bans.find('10.0.0.1').range, '10.0.0.0/24');
+        });
+        it('should refuse invalid prefixes', () => {
+            assert.throws(() => new BanList().add('10.0.0.0/33'));
+        });
+    });
+    describe('remove', () => {
+        it('should lift a ban written differently than it was added', () => {
+            let bans = new BanList();
+            bans.add('10.0.0.0/24');
+            assert.strictEqual(bans.remove('10.0.0.9/24'), true);
+            assert.strictEqual(bans.has('10.0.0.9'), false);
+            assert.strictEqual(bans.remove('10.0.0.9/24'), false);
+        });
+    });
+    describe('prune', () => {
+        it('should throw away bans that have expired', () => {
+            let bans = new BanList();
+            bans.add('10.0.0.4', 1000, '', 0);
+            bans.add('10.0.0.5', undefined, '', 0);
+            assert.strictEqual(bans.has('10.0.0.4', 999), true);
+            assert.strictEqual(bans.has('10.0.0.4', 1000), false);
+            assert.strictEqual(bans.size, 1);
+        });
+    });
+    describe('load', () => {
+        it('should read back a list saved as JSON', () => {
+            let bans = new BanList();
+            bans.add('192.168.0.0/16', 5000, 'cheating');
+            bans.add('10.0.0.4');
+
+            let loaded = new BanList();
+            loaded.load(JSON.stringify(bans));
+            assert.deepStrictEqual(loaded.list(), bans.list());
+            assert.strictEqual(loaded.has('192.168.3.4'), true);
+        });
+        it('should skip bans that expired while it was saved', () => {
+            let bans = new BanList();
+            bans.load([{range: '10.0.0.4', reason: '', expires: 10}], 20);
+            assert.strictEqual(bans.size, 0);
+        });
+    });
+});
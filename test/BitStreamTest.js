@@ -170,6 +170,17 @@ describe('BitStream', () => {
             assert.strictEqual(stream.allRead(), false);
         });
     });
+    describe('unreadBits', () => {
+        it('should count the bits left to read', () => {
+            let stream = new BitStream();
+            stream.writeShort(0);
+            assert.strictEqual(stream.unreadBits(), 16);
+            stream.readBits(3);
+            assert.strictEqual(stream.unreadBits(), 13);
+            stream.readBits(13);
+            assert.strictEqual(stream.unreadBits(), 0);
+        });
+    });
     describe('readBit', () => {
         it('should read a bit from the stream', () => {
             let stream = new BitStream();
@@ -193,6 +204,15 @@ describe('BitStream', () => {
             assert.strictEqual(stream.readBitsReversed(16), 0x5555);
         });
     });
+    describe('readCompressed', () => {
+        it('should read back every size of compressed long', () => {
+            for(const n of [0, 0x0F, 0xFF, 0x1001, 0x123456, 0xFFFFFFFF]) {
+                let stream = new BitStream();
+                stream.writeCompressedLong(n);
+                assert.strictEqual(stream.readCompressed(4).readLong(), n);
+            }
+        });
+    });
     describe('concat', () => {
         it('should concat two bitstreams', () => {
             let stream = new BitStream();
@@ -0,0 +1,126 @@
+const assert = require('assert');
+const dgram = require('dgram');
+const RakServer = require('../RakServer').default;
+const RakClient = require('../RakClient').default;
+const RakMessages = require('../RakMessages').default;
+
+describe('RakClient', () => {
+    // Stands in for a server that never answers, and counts the connection attempts that reach it
+    let silent;
+    let attempts;
+    beforeEach((done) => {
+        attempts = 0;
+        silent = dgram.createSocket('udp4');
+        silent.on('message', (msg) => {
+            if(msg.readUInt8(0) === RakMessages.ID_OPEN_CONNECTION_REQUEST) attempts++;
+        });
+        silent.bind(0, '127.0.0.1', done);
+    });
+    afterEach((done) => {
+        silent.close(done);
+    });
+
+    describe('connect', () => {
+        it('should retry and then reject when the server never answers', async () => {
+            let client = new RakClient('127.0.0.1', silent.address().port, '');
+            let started = Date.now();
+            await assert.rejects(client.connect({timeout: 100, retries: 2}), {name: 'ConnectionError', messageId: RakMessages.ID_CONNECTION_ATTEMPT_FAILED});
+            assert.strictEqual(attempts, 3);
+            assert.ok(Date.now() - started >= 300);
+            await client.disconnect();
+        });
+        it('should reject a second connect while the first is still going', async () => {
+            let client = new RakClient('127.0.0.1', silent.address().port, '');
+            let first = client.connect({timeout: 100, retries: 0});
+            await assert.rejects(client.connect(), {name: 'ConnectionError', message: 'Already connecting'});
+            await assert.rejects(first, {name: 'ConnectionError'});
+            await client.disconnect();
+        });
+        it('should reject once the server turns us away', async () => {
+            silent.on('message', (msg, info) => {
+                silent.send(Buffer.from([RakMessages.ID_CONNECTION_BANNED]), info.port, info.address);
+            });
+            let client = new RakClient('127.0.0.1', silent.address().port, '');
+            await assert.rejects(client.connect({timeout: 1000}), {name: 'ConnectionError', messageId: RakMessages.ID_CONNECTION_BANNED});
+            assert.strictEqual(attempts, 1);
+            await client.disconnect();
+        });
+        it('should reject sends before it is connected', async () => {
+            let client = new RakClient('127.0.0.1', silent.address().port, '');
+            await assert.rejects(client.send(Buffer.from([RakMessages.ID_USER_PACKET_ENUM])), {name: 'DeliveryError', reason: 'closed'});
+            await client.disconnect();
+        });
+    });
+
+    describe('discover', () => {
+        let server;
+        let port;
+        beforeEach((done) => {
+            server = new RakServer('127.0.0.1', 0, '');
+            server.setOfflinePingResponse('lobby');
+            server.server.once('listening', () => {
+                port = server.server.address().port;
+                done();
+            });
+        });
+        afterEach(() => server.close());
+
+        it('should list the servers that answer', async () => {
+            let found = [];
+            let servers = await RakClient.discover({port: port, broadcastAddress: null, hosts: ['127.0.0.1'], timeout: 200, onServer: (s) => found.push(s)});
+            assert.strictEqual(servers.length, 1);
+            assert.strictEqual(servers[0].address.toString(), `127.0.0.1:${port}`);
+            assert.strictEqual(servers[0].data.toString(), 'lobby');
+            assert.ok(servers[0].latency < 200);
+            assert.deepStrictEqual(found, servers);
+        });
+        it('should ping hosts given with their own port', async () => {
+            let servers = await RakClient.discover({port: silent.address().port, broadcastAddress: null, hosts: [`127.0.0.1:${port}`, '127.0.0.1'], timeout: 200});
+            assert.deepStrictEqual(servers.map((s) => s.address.port), [port]);
+        });
+        it('should reject hosts it can\'t read', async () => {
+            await assert.rejects(RakClient.discover({port: port, broadcastAddress: null, hosts: ['::1'], timeout: 100}), /not a valid address/);
+        });
+    });
+
+    describe('reconnect', () => {
+        let server;
+        let port;
+        beforeEach((done) => {
+            server = new RakServer('127.0.0.1', 0, '');
+            server.server.once('listening', () => {
+                port = server.server.address().port;
+                done();
+            });
+        });
+        afterEach(() => server.close());
+
+        it('should back off between attempts and give up after the last one', async () => {
+            let client = new RakClient('127.0.0.1', port, '', {reconnect: {initialDelay: 50, maxAttempts: 3, jitter: 0, timeout: 100}});
+            client.on(String(RakMessages.ID_DISCONNECTION_NOTIFICATION), () => {});
+            let delays = [];
+            client.on('reconnecting', (attempt, delay) => delays.push([attempt, delay]));
+            let failed = new Promise((resolve) => client.once('reconnectFailed', resolve));
+            await client.connect({timeout: 500});
+
+            await server.close();
+            let error = await failed;
+            assert.strictEqual(error.messageId, RakMessages.ID_CONNECTION_ATTEMPT_FAILED);
+            assert.deepStrictEqual(delays, [[1, 50], [2, 100], [3, 200]]);
+            await client.disconnect();
+        });
+        it('should reconnect once the server is back', async () => {
+            let client = new RakClient('127.0.0.1', port, '', {reconnect: {initialDelay: 50, maxAttempts: 5, jitter: 0, timeout: 100}});
+            client.on(String(RakMessages.ID_DISCONNECTION_NOTIFICATION), () => {});
+            let reconnected = new Promise((resolve) => client.once('reconnected', resolve));
+            await client.connect({timeout: 500});
+
+            await server.close();
+            server = new RakServer('127.0.0.1', port, '');
+            server.on(String(RakMessages.ID_DISCONNECTION_NOTIFICATION), () => {});
+            await reconnected;
+            assert.strictEqual(client.connected, true);
+            await client.disconnect();
+        });
+    });
+});
@@ -0,0 +1,158 @@
+const assert = require('assert');
+const dgram = require('dgram');
+const RakServer = require('../RakServer').default;
+const RakClient = require('../RakClient').default;
+const RakMessages = require('../RakMessages').default;
+
+// Starts a server on a free port on 127.0.0.1
+function listen(password, options) {
+    let server = new RakServer('127.0.0.1', 0, password, options);
+    return new Promise((resolve) => server.server.once('listening', () => resolve(server)));
+}
+
+describe('RakServer', () => {
+    let server;
+    let clients;
+    let port;
+    beforeEach(async () => {
+        server = await listen('secret');
+        port = server.server.address().port;
+        // Clients say goodbye when each test is done, which nobody else is listening for
+        server.on(String(RakMessages.ID_DISCONNECTION_NOTIFICATION), () => {});
+        clients = [];
+    });
+    afterEach(async () => {
+        for(const client of clients) {
+            await client.disconnect();
+        }
+        await server.close();
+    });
+
+    // Swaps the server for one with different options
+    async function restart(options) {
+        await server.close();
+        server = await listen('secret', options);
+        port = server.server.address().port;
+        server.on(String(RakMessages.ID_DISCONNECTION_NOTIFICATION), () => {});
+    }
+
+    function client(password, options) {
+        let client = new RakClient('127.0.0.1', port, password, options);
+        clients.push(client);
+        return client;
+    }
+
+    describe('handshake', () => {
+        it('should accept a client with the right password', async () => {
+            let accepted = new Promise((resolve) => server.once('newIncomingConnection', (connection, address) => resolve(address)));
+            let c = client('secret');
+            await c.connect({timeout: 500});
+            let address = await accepted;
+
+            assert.strictEqual(c.connected, true);
+            assert.strictEqual(server.connectionCount, 1);
+            assert.strictEqual(address.port, c.client.address().port);
+        });
+        it('should pass on packets from the client once it is connected', async () => {
+            let c = client('secret');
+            await c.connect({timeout: 500});
+            let received = new Promise((resolve) => server.once(String(RakMessages.ID_USER_PACKET_ENUM), (packet) => resolve(packet.readByte())));
+            await c.send(Buffer.from([RakMessages.ID_USER_PACKET_ENUM, 7]));
+            assert.strictEqual(await received, 7);
+        });
+        it('should turn away a client with the wrong password', async () => {
+            let c = client('wrong');
+            await assert.rejects(c.connect({timeout: 500}), {name: 'ConnectionError', messageId: RakMessages.ID_INVALID_PASSWORD});
+            assert.strictEqual(c.connected, false);
+            assert.strictEqual(server.connectionCount, 0);
+        });
+    });
+
+    describe('maxConnections', () => {
+        it('should turn away clients once it is full', async () => {
+            await restart({maxConnections: 1});
+            await client('secret').connect({timeout: 500});
+            await assert.rejects(client('secret').connect({timeout: 500}), {name: 'ConnectionError', messageId: RakMessages.ID_NO_FREE_INCOMING_CONNECTIONS});
+            assert.strictEqual(server.connectionCount, 1);
+        });
+        it('should keep the reserved connections for whitelisted ips', async () => {
+            await restart({maxConnections: 2, reservedConnections: 1});
+            await client('secret').connect({timeout: 500});
+            await assert.rejects(client('secret').connect({timeout: 500}), {name: 'ConnectionError', messageId: RakMessages.ID_NO_FREE_INCOMING_CONNECTIONS});
+        });
+        it('should let whitelisted ips use the reserved connections', async () => {
+            await restart({maxConnections: 2, reservedConnections: 1, whitelist: ['127.0.0.1']});
+            await client('secret').connect({timeout: 500});
+            await client('secret').connect({timeout: 500});
+            assert.strictEqual(server.connectionCount, 2);
+        });
+    });
+
+    describe('ID_ALREADY_CONNECTED', () => {
+        it('should let a client back in once its old session turns out to be dead', async function() {
+            this.timeout(5000);
+            await restart({probeTimeout: 200});
+            let old = new RakClient('127.0.0.1', port, 'secret');
+            await new Promise((resolve) => old.client.bind(0, '127.0.0.1', resolve));
+            let clientPort = old.client.address().port;
+            await old.connect({timeout: 500});
+
+            // It goes away without telling the server, like a crash
+            old.getServer().destroy();
+            await new Promise((resolve) => old.client.close(resolve));
+
+            let restarted = client('secret');
+            await new Promise((resolve) => restarted.client.bind(clientPort, '127.0.0.1', resolve));
+            await restarted.connect({timeout: 500, retries: 6});
+            assert.strictEqual(restarted.connected, true);
+            assert.strictEqual(server.connectionCount, 1);
+        });
+        it('should keep a session that still answers', async function() {
+            this.timeout(5000);
+            await restart({probeTimeout: 200});
+            let c = client('secret');
+            await c.connect({timeout: 500});
+
+            let lost = false;
+            server.on(String(RakMessages.ID_CONNECTION_LOST), () => lost = true);
+            // Anyone could send this with the client's address
+            c.client.send(Buffer.from([RakMessages.ID_OPEN_CONNECTION_REQUEST, 0]), port, '127.0.0.1');
+            await new Promise((resolve) => setTimeout(resolve, 1500));
+            assert.strictEqual(lost, false);
+            assert.strictEqual(c.connected, true);
+            assert.strictEqual(server.connectionCount, 1);
+        });
+    });
+
+    describe('unconnected ping', () => {
+        // Pings the server from a plain socket and waits a little for an answer
+        async function ping(messageId) {
+            let socket = dgram.createSocket('udp4');
+            let reply = new Promise((resolve) => {
+                socket.once('message', resolve);
+                setTimeout(() => resolve(undefined), 200);
+            });
+            let request = Buffer.from([messageId, 0, 0, 0, 0]);
+            request.writeUInt32LE(123456, 1);
+            socket.send(request, port, '127.0.0.1');
+            let answer = await reply;
+            socket.close();
+            return answer;
+        }
+
+        it('should answer with an ID_PONG carrying our time and the offline ping response', async () => {
+            server.setOfflinePingResponse('hello');
+            let pong = await ping(RakMessages.ID_PING);
+            assert.strictEqual(pong.readUInt8(0), RakMessages.ID_PONG);
+            assert.strictEqual(pong.readUInt32LE(1), 123456);
+            assert.strictEqual(pong.subarray(5).toString(), 'hello');
+        });
+        it('should only answer ID_PING_OPEN_CONNECTIONS when there is room', async () => {
+            await restart({maxConnections: 1});
+            assert.notStrictEqual(await ping(RakMessages.ID_PING_OPEN_CONNECTIONS), undefined);
+            await client('secret').connect({timeout: 500});
+            assert.strictEqual(await ping(RakMessages.ID_PING_OPEN_CONNECTIONS), undefined);
+            assert.notStrictEqual(await ping(RakMessages.ID_PING), undefined);
+        });
+    });
+});
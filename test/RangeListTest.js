@@ -1,3 +1,15 @@
 const assert = require('assert');
 const {RangeList} = require('../structures/RangeList');
 
+describe('RangeList', () => {
+    describe('toArray', () => {
+        it('should return every number in every range in order', () => {
+            let list = new RangeList();
+            list.add(5);
+            list.add(1);
+            list.add(2);
+            list.add(6);
+            assert.deepStrictEqual(list.toArray(), [1, 2, 5, 6]);
+        });
+    });
+});
@@ -0,0 +1,65 @@
+const assert = require('assert');
+const {ReceivedMessageWindow} = require('../structures/ReceivedMessageWindow');
+
+describe('ReceivedMessageWindow', () => {
+    describe('add', () => {
+        it('should remember message numbers that were added', () => {
+            let window = new ReceivedMessageWindow();
+            assert.strictEqual(window.has(3), false);
+            assert.strictEqual(window.add(3), true);
+            assert.strictEqual(window.has(3), true);
+            assert.strictEqual(window.has(2), false);
+        });
+        it('should slide the base forward once the gap is filled', () => {
+            let window = new ReceivedMessageWindow();
+            window.add(1);
+            window.add(2);
+            assert.strictEqual(window.base, 0);
+            window.add(0);
+            assert.strictEqual(window.base, 3);
+            assert.strictEqual(window.has(1), true);
+        });
+        it('should slide past gaps for message numbers too far ahead of the base', () => {
+            let window = new ReceivedMessageWindow(10);
+            window.add(3);
+            assert.strictEqual(window.add(12), true);
+            assert.strictEqual(window.base, 4);
+            assert.strictEqual(window.has(12), true);
+            assert.strictEqual(window.has(3), true);
+            assert.strictEqual(window.has(4), false);
+        });
+        it('should keep sliding when a message number never arrives', () => {
+            // 1 was an unreliable message that got lost, so the gap it left never fills
+            let window = new ReceivedMessageWindow(10);
+            window.add(0);
+            for (let n = 2; n < 100; n++) {
+                assert.strictEqual(window.add(n), true);
+                assert.strictEqual(window.has(n), true);
+            }
+            assert.strictEqual(window.base, 100);
+        });
+        it('should not take back message numbers behind the base', () => {
+            let window = new ReceivedMessageWindow(10, 5);
+            assert.strictEqual(window.add(4), false);
+            assert.strictEqual(window.base, 5);
+        });
+    });
+    describe('has', () => {
+        it('should treat message numbers behind the base as received', () => {
+            let window = new ReceivedMessageWindow(10, 5);
+            assert.strictEqual(window.has(4), true);
+            assert.strictEqual(window.has(5), false);
+        });
+        it('should handle message numbers wrapping around', () => {
+            let window = new ReceivedMessageWindow(65536, 0xFFFFFFFE);
+            assert.strictEqual(window.add(0), true);
+            assert.strictEqual(window.has(0), true);
+            window.add(0xFFFFFFFE);
+            window.add(0xFFFFFFFF);
+            assert.strictEqual(window.base, 1);
+            assert.strictEqual(window.has(0xFFFFFFFD), true);
+            assert.strictEqual(window.has(1), false);
+            assert.strictEqual(window.inWindow(1), true);
+        });
+    });
+});
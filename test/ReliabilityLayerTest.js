@@ -0,0 +1,310 @@
+const assert = require('assert');
+const BitStream = require('../structures/BitStream').default;
+const {RangeList, RangeListRange} = require('../structures/RangeList');
+const {SystemAddress} = require('../structures/SystemAddress');
+const {ReliabilityLayer, Reliability, PacketPriority, getTime} = require('../ReliabilityLayer');
+
+// Stands in for the dgram socket, we only care about what the layer hands back to us
+const socket = {send(buffer, port, address, callback) { if(callback) callback(); }};
+
+// Keeps every datagram a layer sends so it can be handed to another layer
+function capture() {
+    let sent = [];
+    return {sent: sent, send(buffer, port, address, callback) { sent.push(Buffer.from(buffer)); if(callback) callback(); }};
+}
+
+function packet(n) {
+    return new BitStream(Buffer.from([0xFE, n & 0xFF, (n >>> 8) & 0xFF]));
+}
+
+function datagram(layer, messages) {
+    let stream = new BitStream();
+    stream.writeBit(false);
+    stream.writeBit(true);
+    stream.writeLong(getTime());
+    for(const message of messages) {
+        layer.writeMessage(stream, packet(message.n || 0), message.messageNumber, message.reliability, message.index, message.channel || 0, message.split);
+    }
+    return stream;
+}
+
+function receive(layer, stream) {
+    return [...layer.handle_data(new BitStream(stream.data))].filter((p) => p !== undefined).map((p) => p.data.readUInt16LE(1));
+}
+
+function ack(layer, ranges, time = getTime()) {
+    let acks = new RangeList();
+    acks.ranges = ranges.map(([min, max]) => new RangeListRange(min, max));
+    let stream = new BitStream();
+    stream.writeBit(true);
+    stream.writeLong(time);
+    stream.writeBitStream(acks.serialize());
+    return [...layer.handle_data(new BitStream(stream.data))];
+}
+
+describe('ReliabilityLayer', () => {
+    let layer;
+    beforeEach(() => {
+        layer = new ReliabilityLayer(socket, new SystemAddress('127.0.0.1', 1001));
+    });
+    afterEach(() => {
+        layer.destroy();
+    });
+
+    describe('RELIABLE_ORDERED', () => {
+        it('should hold back packets until the ones before them arrive', () => {
+            let ordered = (messageNumber, index) => datagram(layer, [{n: index, messageNumber: messageNumber, reliability: Reliability.RELIABLE_ORDERED, index: index}]);
+            assert.deepStrictEqual(receive(layer, ordered(0, 2)), []);
+            assert.deepStrictEqual(receive(layer, ordered(1, 1)), []);
+            assert.deepStrictEqual(receive(layer, ordered(2, 0)), [0, 1, 2]);
+            assert.deepStrictEqual(receive(layer, ordered(3, 3)), [3]);
+        });
+        it('should keep ordering channels apart', () => {
+            let ordered = (messageNumber, index, channel) => datagram(layer, [{n: channel, messageNumber: messageNumber, reliability: Reliability.RELIABLE_ORDERED, index: index, channel: channel}]);
+            assert.deepStrictEqual(receive(layer, ordered(0, 1, 1)), []);
+            assert.deepStrictEqual(receive(layer, ordered(1, 0, 2)), [2]);
+            assert.deepStrictEqual(receive(layer, ordered(2, 0, 1)), [1, 1]);
+        });
+        it('should stop holding back packets once too many are waiting', () => {
+            let ordered = (messageNumber, index) => datagram(layer, [{n: index, messageNumber: messageNumber, reliability: Reliability.RELIABLE_ORDERED, index: index}]);
+            for(let i = 1; i <= 1024; i++) {
+                assert.deepStrictEqual(receive(layer, ordered(i, i)), []);
+            }
+            // There's no room for this one, so it isn't acked or marked as received and has to be resent
+            assert.deepStrictEqual(receive(layer, ordered(1025, 1025)), []);
+
+            let released = receive(layer, ordered(0, 0));
+            assert.strictEqual(released.length, 1025);
+            assert.strictEqual(released[1024], 1024);
+            assert.deepStrictEqual(receive(layer, ordered(1025, 1025)), [1025]);
+        });
+        it('should drop packets from before the ordering index wrapped', () => {
+            let ordered = (messageNumber, index) => datagram(layer, [{n: messageNumber, messageNumber: messageNumber, reliability: Reliability.RELIABLE_ORDERED, index: index}]);
+            // 0xFFFFFFFF comes right before 0, so it is old and shouldn't be held back
+            assert.deepStrictEqual(receive(layer, ordered(0, 0xFFFFFFFF)), []);
+            assert.deepStrictEqual(receive(layer, ordered(1, 0)), [1]);
+            assert.deepStrictEqual(receive(layer, ordered(2, 1)), [2]);
+        });
+    });
+
+    describe('RELIABLE_SEQUENCED', () => {
+        it('should drop packets older than the newest one received', () => {
+            let sequenced = (messageNumber, index) => datagram(layer, [{n: index, messageNumber: messageNumber, reliability: Reliability.RELIABLE_SEQUENCED, index: index}]);
+            assert.deepStrictEqual(receive(layer, sequenced(0, 2)), [2]);
+            assert.deepStrictEqual(receive(layer, sequenced(1, 1)), []);
+            assert.deepStrictEqual(receive(layer, sequenced(2, 2)), []);
+            assert.deepStrictEqual(receive(layer, sequenced(3, 5)), [5]);
+        });
+    });
+
+    describe('split packets', () => {
+        let split = (messageNumber, id, index, count) => datagram(layer, [{n: index, messageNumber: messageNumber, reliability: Reliability.RELIABLE, split: {id: id, index: index, count: count}}]);
+
+        it('should put split packets back together once every piece arrives', () => {
+            assert.deepStrictEqual(receive(layer, split(0, 7, 1, 2)), []);
+            let packets = [...layer.handle_data(new BitStream(split(1, 7, 0, 2).data))].filter((p) => p !== undefined);
+            assert.strictEqual(packets.length, 1);
+            assert.deepStrictEqual([...packets[0].data], [0xFE, 0, 0, 0xFE, 1, 0]);
+        });
+        it('should drop split packets with too many or no pieces', () => {
+            let dropped = [];
+            layer.on('splitPacketDropped', (info) => dropped.push(info));
+            assert.deepStrictEqual(receive(layer, split(0, 1, 0, 0)), []);
+            assert.deepStrictEqual(receive(layer, split(1, 2, 0, 4097)), []);
+            assert.deepStrictEqual(dropped, [
+                {id: 1, count: 0, received: 0, reason: 'count'},
+                {id: 2, count: 4097, received: 0, reason: 'count'}
+            ]);
+        });
+        it('should only keep so many split packets open at once', () => {
+            let dropped = [];
+            layer.on('splitPacketDropped', (info) => dropped.push(info));
+            for(let i = 0; i < 64; i++) {
+                receive(layer, split(i, i, 0, 4096));
+            }
+            assert.deepStrictEqual(dropped, []);
+            receive(layer, split(64, 64, 0, 4096));
+            assert.deepStrictEqual(dropped, [{id: 64, count: 4096, received: 0, reason: 'memory'}]);
+        });
+        it('should drop split packets when a piece disagrees on the count', () => {
+            let dropped = [];
+            layer.on('splitPacketDropped', (info) => dropped.push(info));
+            receive(layer, split(0, 3, 0, 3));
+            receive(layer, split(1, 3, 1, 4));
+            assert.deepStrictEqual(dropped, [{id: 3, count: 3, received: 1, reason: 'count'}]);
+        });
+        it('should drop split packets that stop getting pieces', () => {
+            let dropped = [];
+            layer.on('splitPacketDropped', (info) => dropped.push(info));
+            receive(layer, split(0, 4, 0, 2));
+
+            let now = Date.now;
+            try {
+                Date.now = () => now() + 30001;
+                layer.expireSplitPackets();
+            } finally {
+                Date.now = now;
+            }
+            assert.deepStrictEqual(dropped, [{id: 4, count: 2, received: 1, reason: 'timeout'}]);
+            assert.deepStrictEqual(receive(layer, split(1, 4, 1, 2)), []);
+        });
+    });
+
+    describe('send', () => {
+        it('should resolve reliable packets once they are acked', async () => {
+            let acked = false;
+            let promise = layer.send(packet(0), Reliability.RELIABLE).then(() => acked = true);
+            layer.sendLoop();
+            await Promise.resolve();
+            assert.strictEqual(acked, false);
+
+            ack(layer, [[0, 0]]);
+            await promise;
+            assert.strictEqual(acked, true);
+        });
+        it('should reject packets still waiting when the connection is closed', async () => {
+            let sent = layer.send(packet(0), Reliability.RELIABLE);
+            layer.sendLoop();
+            let queued = layer.send(packet(1), Reliability.RELIABLE);
+            layer.close(false);
+            await assert.rejects(sent, {name: 'DeliveryError', reason: 'closed'});
+            await assert.rejects(queued, {name: 'DeliveryError', reason: 'closed'});
+            await assert.rejects(layer.send(packet(2), Reliability.RELIABLE), {name: 'DeliveryError', reason: 'closed'});
+        });
+        it('should reject packets still waiting when the connection is lost', async () => {
+            let sent = layer.send(packet(0), Reliability.RELIABLE);
+            layer.sendLoop();
+            layer.lose();
+            await assert.rejects(sent, {name: 'DeliveryError', reason: 'timeout'});
+        });
+    });
+
+    describe('acks', () => {
+        it('should not expand huge ack ranges', async () => {
+            let promise = layer.send(packet(0), Reliability.RELIABLE);
+            layer.sendLoop();
+            ack(layer, [[0, 0xFFFFFFF0]]);
+            await promise;
+        });
+        it('should not read the padding after the acks as a message', () => {
+            let acks = new RangeList();
+            acks.ranges = [new RangeListRange(3, 3), new RangeListRange(5, 9)];
+            let stream = new BitStream();
+            stream.writeBit(true);
+            stream.writeLong(getTime());
+            stream.writeBitStream(acks.serialize());
+            assert.notStrictEqual(stream.bits() % 8, 0);
+            receive(layer, stream);
+
+            let reliable = datagram(layer, [{n: 1, messageNumber: 0, reliability: Reliability.RELIABLE}]);
+            assert.deepStrictEqual(receive(layer, reliable), [1]);
+        });
+    });
+
+    describe('sendDatagrams', () => {
+        it('should pack messages and the acks we owe into one datagram the other side can read', async () => {
+            let ours = capture();
+            let theirs = capture();
+            let local = new ReliabilityLayer(ours, new SystemAddress('127.0.0.1', 1002));
+            let remote = new ReliabilityLayer(theirs, new SystemAddress('127.0.0.1', 1003));
+            try {
+                let delivered = remote.send(packet(9), Reliability.RELIABLE);
+                remote.sendLoop();
+                receive(local, new BitStream(theirs.sent[0]));
+
+                local.send(packet(1), Reliability.RELIABLE_ORDERED);
+                local.send(packet(2), Reliability.UNRELIABLE);
+                local.sendLoop();
+                assert.strictEqual(ours.sent.length, 1);
+
+                // The ack for their message rides along with ours
+                assert.deepStrictEqual(receive(remote, new BitStream(ours.sent[0])), [1, 2]);
+                await delivered;
+                assert.strictEqual(remote.getStatistics().resendQueueDepth, 0);
+            } finally {
+                local.destroy();
+                remote.destroy();
+            }
+        });
+    });
+
+    describe('nextSend', () => {
+        it('should still give low priority packets turns while high priority ones are waiting', () => {
+            for(let i = 0; i < 20; i++) {
+                layer.send(packet(PacketPriority.HIGH), Reliability.RELIABLE, 0, PacketPriority.HIGH);
+            }
+            layer.send(packet(PacketPriority.LOW), Reliability.RELIABLE, 0, PacketPriority.LOW);
+            layer.send(packet(PacketPriority.LOW), Reliability.RELIABLE, 0, PacketPriority.LOW);
+
+            let order = [];
+            for(let i = 0; i < 10; i++) {
+                order.push(layer.nextSend().packet.data.readUInt8(1));
+            }
+            let {HIGH, LOW} = PacketPriority;
+            assert.deepStrictEqual(order, [HIGH, HIGH, HIGH, HIGH, LOW, HIGH, HIGH, HIGH, HIGH, LOW]);
+        });
+    });
+
+    describe('congestion control', () => {
+        let now = Date.now;
+        let time;
+        beforeEach(() => {
+            time = now();
+            Date.now = () => time;
+        });
+        afterEach(() => {
+            Date.now = now;
+        });
+
+        // Sends count reliable packets, which go out as the next count message numbers
+        let flight = (count) => {
+            for(let i = 0; i < count; i++) {
+                layer.send(packet(i), Reliability.RELIABLE);
+            }
+            layer.sendLoop();
+        };
+        let window = () => layer.getStatistics().congestionWindow;
+
+        it('should grow the window by one for every ack during slow start', () => {
+            assert.strictEqual(window(), 2);
+            flight(2);
+            ack(layer, [[0, 1]], time - 100);
+            assert.strictEqual(window(), 4);
+            flight(4);
+            ack(layer, [[2, 5]], time - 100);
+            assert.strictEqual(window(), 8);
+        });
+        it('should halve the window once per round trip when messages are lost', () => {
+            flight(2);
+            ack(layer, [[0, 1]], time - 100);
+            flight(4);
+            ack(layer, [[2, 5]], time - 100);
+            flight(8);
+            ack(layer, [[6, 13]], time - 100);
+            assert.strictEqual(window(), 16);
+
+            // All 16 time out together, but that only counts as one loss
+            flight(16);
+            time += layer.getStatistics().rto + 1;
+            layer.sendLoop();
+            assert.strictEqual(layer.getStatistics().messagesResent, 16);
+            assert.strictEqual(window(), 8);
+
+            time += layer.getStatistics().rto + 1;
+            layer.sendLoop();
+            assert.strictEqual(window(), 4);
+        });
+        it('should only halve the window once for a burst of loss when the round trip is too short to measure', () => {
+            flight(2);
+            ack(layer, [[0, 1]], time);
+            flight(4);
+            ack(layer, [[2, 5]], time);
+            flight(8);
+            ack(layer, [[6, 13]], time);
+            flight(16);
+            time += layer.getStatistics().rto + 1;
+            layer.sendLoop();
+            assert.strictEqual(window(), 8);
+        });
+    });
+});
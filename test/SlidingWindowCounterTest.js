@@ -0,0 +1,28 @@
+const assert = require('assert');
+const {SlidingWindowCounter} = require('../structures/SlidingWindowCounter');
+
+describe('SlidingWindowCounter', () => {
+    describe('total', () => {
+        it('should add up everything within the window', () => {
+            let counter = new SlidingWindowCounter(1000, 100);
+            counter.add(10, 1000);
+            counter.add(5, 1050);
+            counter.add(1, 1500);
+            assert.strictEqual(counter.total(1500), 16);
+        });
+        it('should forget values that have fallen out of the window', () => {
+            let counter = new SlidingWindowCounter(1000, 100);
+            counter.add(10, 1000);
+            counter.add(1, 1500);
+            assert.strictEqual(counter.total(2050), 1);
+            assert.strictEqual(counter.total(2600), 0);
+        });
+    });
+    describe('perSecond', () => {
+        it('should average the total over the window', () => {
+            let counter = new SlidingWindowCounter(2000, 100);
+            counter.add(100, 1000);
+            assert.strictEqual(counter.perSecond(1000), 50);
+        });
+    });
+});
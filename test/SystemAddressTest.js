@@ -0,0 +1,40 @@
+const assert = require('assert');
+const {SystemAddress} = require('../structures/SystemAddress');
+const BitStream = require('../structures/BitStream').default;
+
+describe('SystemAddress', () => {
+    describe('toString', () => {
+        it('should include the port', () => {
+            assert.strictEqual(new SystemAddress('127.0.0.1', 1001).toString(), '127.0.0.1:1001');
+        });
+        it('should put brackets around IPv6 addresses', () => {
+            assert.strictEqual(new SystemAddress('::1', 1001, 'IPv6').toString(), '[::1]:1001');
+        });
+    });
+    describe('parse', () => {
+        it('should read back what toString wrote', () => {
+            let address = SystemAddress.parse('[::1]:1001');
+            assert.strictEqual(address.equals(new SystemAddress('::1', 1001, 'IPv6')), true);
+            address = SystemAddress.parse('10.0.0.2:3000');
+            assert.strictEqual(address.equals(new SystemAddress('10.0.0.2', 3000)), true);
+        });
+        it('should throw if there is no port', () => {
+            assert.throws(() => SystemAddress.parse('10.0.0.2'));
+        });
+    });
+    describe('equals', () => {
+        it('should tell apart systems behind the same ip', () => {
+            let a = SystemAddress.from({address: '10.0.0.2', port: 3000, family: 'IPv4'});
+            let b = SystemAddress.from({address: '10.0.0.2', port: 3001, family: 'IPv4'});
+            assert.strictEqual(a.equals(b), false);
+            assert.strictEqual(a.equals(SystemAddress.from(a)), true);
+        });
+    });
+    describe('write', () => {
+        it('should write the ip octets followed by the port', () => {
+            let stream = new BitStream();
+            new SystemAddress('10.0.0.2', 3000).write(stream);
+            assert.deepStrictEqual([...stream.data], [10, 0, 0, 2, 0xB8, 0x0B]);
+        });
+    });
+});